@@ -0,0 +1,72 @@
+/**
+ * 認証プロバイダー
+ *
+ * @description
+ * - 初回訪問時に匿名ユーザーとしてサインインし、ユーザーIDをアプリ全体に提供する
+ * - ローカルストレージ（IndexedDB）で動かしている場合はFirebaseを使わず固定のユーザーIDを使う
+ */
+'use client'
+
+import { createContext, useEffect, useState } from 'react'
+import {
+  signInAsGuest,
+  subscribeAuthState,
+} from '@/infrastructure/auth/AuthOperations'
+import { STORAGE_DRIVER } from '@/infrastructure/storage/config'
+
+/** ローカルストレージで動かしている場合のユーザーID */
+const LOCAL_USER_ID = 'local'
+
+/** 認証の状態 */
+export type AuthState = {
+  /** ユーザーID（サインイン前はnull） */
+  uid: string | null
+  /** 匿名ユーザーかどうか */
+  isAnonymous: boolean
+  /** サインイン処理中かどうか */
+  isLoading: boolean
+  /** サインインのエラー */
+  error: string | null
+}
+
+const INITIAL_STATE: AuthState = {
+  uid: null,
+  isAnonymous: true,
+  isLoading: true,
+  error: null,
+}
+
+export const AuthContext = createContext<AuthState>(INITIAL_STATE)
+
+export const AuthProvider = ({
+  children,
+}: {
+  children: React.ReactNode
+}): React.ReactNode => {
+  const [state, setState] = useState<AuthState>(INITIAL_STATE)
+
+  useEffect(() => {
+    if (STORAGE_DRIVER === 'local') {
+      setState({ ...INITIAL_STATE, uid: LOCAL_USER_ID, isLoading: false })
+      return
+    }
+
+    return subscribeAuthState((user) => {
+      if (user) {
+        setState({
+          uid: user.uid,
+          isAnonymous: user.isAnonymous,
+          isLoading: false,
+          error: null,
+        })
+        return
+      }
+      // 未ログインの場合は匿名ユーザーとしてサインインする（完了すると再度通知される）
+      signInAsGuest().catch((error: Error) => {
+        setState({ ...INITIAL_STATE, isLoading: false, error: error.message })
+      })
+    })
+  }, [])
+
+  return <AuthContext.Provider value={state}>{children}</AuthContext.Provider>
+}
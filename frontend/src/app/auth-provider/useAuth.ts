@@ -0,0 +1,8 @@
+import { useContext } from 'react'
+import { AuthContext, type AuthState } from '.'
+
+/**
+ * ログイン中のユーザーの状態を取得する
+ * AuthProviderの内側で使用する
+ */
+export const useAuth = (): AuthState => useContext(AuthContext)
@@ -0,0 +1,187 @@
+/**
+ * アバター切り抜き・配置エディタ
+ *
+ * @description
+ * - アップロードした画像の切り抜き・回転・左右反転を行う
+ * - 左右反転で「横を向いた画像」の向きを揃えられる
+ * - 足元の位置（接地点）を指定し、街の地面の高さに足元を合わせる
+ * - 街の中での動き（ふわふわ・てくてく など）をプリセットから選ぶ
+ *
+ * @props
+ * - source: 元画像（PNGに正規化済みのもの）
+ * - value: 現在の切り抜き・配置の設定
+ * - onChange: 設定変更時のコールバック
+ */
+
+'use client'
+
+/* eslint-disable @next/next/no-img-element */
+import { SegmentedControl, Slider } from '@mantine/core'
+import { useEffect, useState } from 'react'
+import ReactCrop, { type PercentCrop } from 'react-image-crop'
+import 'react-image-crop/dist/ReactCrop.css'
+import { LuFlipHorizontal2, LuRotateCcw, LuRotateCw } from 'react-icons/lu'
+import styles from './style.module.css'
+import type { AvatarFraming } from './types'
+import { IconButton } from '@/components/buttons/icon-button'
+import {
+  CHOREOGRAPHY_PRESETS,
+  type ChoreographyPresetName,
+} from '@/components/scene-renderer/config'
+import { transformImage } from '@/lib/image/transform'
+
+type Props = {
+  source: Blob
+  value: AvatarFraming
+  onChange: (value: AvatarFraming) => void
+}
+
+export const AvatarEditor = ({
+  source,
+  value,
+  onChange,
+}: Props): React.ReactNode => {
+  const [orientedUrl, setOrientedUrl] = useState<string | null>(null)
+  const { rotation, flipX, crop } = value.transform
+
+  /**
+   * 回転・反転のみ適用した画像を作成（切り抜きはこの画像に対して行う）
+   */
+  useEffect(() => {
+    let url: string | null = null
+    let isCancelled = false
+
+    transformImage(source, { rotation, flipX, crop: null }).then((result) => {
+      if (isCancelled) {
+        return
+      }
+      if (!result.success) {
+        console.error('AvatarEditor: プレビュー作成エラー', result.error)
+        return
+      }
+      url = URL.createObjectURL(result.value.blob)
+      setOrientedUrl(url)
+    })
+
+    return () => {
+      isCancelled = true
+      if (url) {
+        URL.revokeObjectURL(url)
+      }
+    }
+  }, [source, rotation, flipX])
+
+  const updateTransform = (transform: Partial<AvatarFraming['transform']>) => {
+    onChange({ ...value, transform: { ...value.transform, ...transform } })
+  }
+
+  /**
+   * 回転・反転を変更すると切り抜き範囲の基準が変わるため、切り抜きを解除する
+   */
+  const rotate = (degree: number) => {
+    updateTransform({ rotation: (rotation + degree + 360) % 360, crop: null })
+  }
+
+  const handleCropChange = (_pixelCrop: unknown, percentCrop: PercentCrop) => {
+    updateTransform({
+      crop:
+        percentCrop.width > 0 && percentCrop.height > 0
+          ? {
+              x: percentCrop.x,
+              y: percentCrop.y,
+              width: percentCrop.width,
+              height: percentCrop.height,
+            }
+          : null,
+    })
+  }
+
+  // 足元のラインは切り抜き範囲内の位置で表示する
+  const area = crop ?? { x: 0, y: 0, width: 100, height: 100 }
+
+  return (
+    <div className={styles.avatarEditor}>
+      <div className={styles.toolbar}>
+        <IconButton
+          icon={<LuRotateCcw size={18} />}
+          onClick={() => rotate(-90)}
+          importance="secondary"
+        />
+        <IconButton
+          icon={<LuRotateCw size={18} />}
+          onClick={() => rotate(90)}
+          importance="secondary"
+        />
+        <IconButton
+          icon={<LuFlipHorizontal2 size={18} />}
+          onClick={() => updateTransform({ flipX: !flipX, crop: null })}
+          importance={flipX ? 'primary' : 'secondary'}
+        />
+        <div className={styles.control}>
+          <span>傾き</span>
+          <Slider
+            value={rotation > 180 ? rotation - 360 : rotation}
+            onChange={(degree) =>
+              updateTransform({ rotation: (degree + 360) % 360, crop: null })
+            }
+            min={-180}
+            max={180}
+            label={(degree) => `${degree}°`}
+          />
+        </div>
+      </div>
+
+      <div className={styles.stage}>
+        {orientedUrl && (
+          <div className={styles.cropArea}>
+            <ReactCrop
+              crop={crop ? { unit: '%', ...crop } : undefined}
+              onChange={handleCropChange}
+              ruleOfThirds
+            >
+              <img src={orientedUrl} alt="avatar" className={styles.image} />
+            </ReactCrop>
+            <div
+              className={styles.groundLine}
+              style={{
+                top: `${area.y + area.height * value.groundAnchor}%`,
+                left: `${area.x}%`,
+                width: `${area.width}%`,
+              }}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className={styles.control}>
+        <span>足元の位置</span>
+        <Slider
+          value={Math.round(value.groundAnchor * 100)}
+          onChange={(percent) =>
+            onChange({ ...value, groundAnchor: percent / 100 })
+          }
+          min={0}
+          max={100}
+          label={(percent) => `上から${percent}%`}
+        />
+      </div>
+
+      <div className={styles.control}>
+        <span>動き</span>
+        <SegmentedControl
+          value={value.choreography}
+          onChange={(choreography) =>
+            onChange({
+              ...value,
+              choreography: choreography as ChoreographyPresetName,
+            })
+          }
+          data={Object.entries(CHOREOGRAPHY_PRESETS).map(([name, preset]) => ({
+            value: name,
+            label: preset.label,
+          }))}
+        />
+      </div>
+    </div>
+  )
+}
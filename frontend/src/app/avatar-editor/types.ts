@@ -0,0 +1,25 @@
+import {
+  DEFAULT_CHOREOGRAPHY,
+  type ChoreographyPresetName,
+} from '@/components/scene-renderer/config'
+import type { ImageTransform } from '@/lib/image/types'
+import { IDENTITY_TRANSFORM } from '@/lib/image/transform'
+
+/**
+ * アバターの切り抜き・配置・動きの設定
+ */
+export type AvatarFraming = {
+  /** 回転・反転・切り抜き */
+  transform: ImageTransform
+  /** 足元の位置（切り抜き後の画像の上端を0、下端を1とした割合） */
+  groundAnchor: number
+  /** 動きのプリセット */
+  choreography: ChoreographyPresetName
+}
+
+/** 切り抜き・配置の初期値（画像の下端を足元とし、ふわふわ動く） */
+export const DEFAULT_FRAMING: AvatarFraming = {
+  transform: IDENTITY_TRANSFORM,
+  groundAnchor: 1,
+  choreography: DEFAULT_CHOREOGRAPHY,
+}
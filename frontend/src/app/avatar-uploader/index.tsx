@@ -0,0 +1,629 @@
+/**
+ * アバターアップロードコンポーネント
+ *
+ * @description
+ * - ユーザーの画像を1人3枚までアップロードしてアバターとして表示する
+ * - アップロード済みの画像は「マイアバター」として一覧・削除できる
+ * - 選択した画像はバリデーションしてPNGに正規化し、プレビュー表示する
+ * - 必要に応じて背景除去・ドット絵変換を行う（ブラウザ内で処理）
+ * - 切り抜き・回転・左右反転と足元の位置を編集できる
+ * - 背景除去の結果はマスクエディタで手動修正できる
+ * - 「適用」でCloud Storage for Firebaseの users/{uid}/avatars にアップロードし、マイアバターに保存する
+ * - 画像ごとに進捗を表示し、一時停止・再開・キャンセルできる
+ * - 失敗した画像のみ、再度「適用」で再送できる
+ *
+ * @user_flow
+ * 1. 「アバターを変更」ボタンでモーダルを開く
+ * 2. ドロップゾーンに画像をドロップ、またはクリックして選択
+ * 3. 背景除去・ドット絵変換の設定を調整し、プレビューを確認
+ * 4. 必要に応じて切り抜き・足元の位置の調整や、背景のマスクをブラシで修正
+ * 5. 不要な画像は削除（上限に達している場合はマイアバターを削除して枠を空ける）
+ * 6. 「適用」でアップロードし、街のアバターが差し替わる
+ */
+
+'use client'
+
+/* eslint-disable @next/next/no-img-element */
+import { Dropzone, type FileWithPath } from '@mantine/dropzone'
+import { useRef, useState } from 'react'
+import {
+  HiOutlinePaintBrush,
+  HiOutlinePhoto,
+  HiOutlineScissors,
+  HiOutlineTrash,
+  HiOutlineXMark,
+} from 'react-icons/hi2'
+import { v4 as uuidv4 } from 'uuid'
+import { processAvatarImage, type AvatarProcessSettings } from './pipeline'
+import { AvatarProcessSettingsForm } from './settings'
+import { UploadProgress, type UploadStatus } from './upload-progress'
+import styles from './style.module.css'
+import { AvatarEditor } from '../avatar-editor'
+import { DEFAULT_FRAMING, type AvatarFraming } from '../avatar-editor/types'
+import { useAuth } from '../auth-provider/useAuth'
+import { MAX_AVATAR_COUNT } from '../avatars/types'
+import { BasicButton } from '@/components/buttons/basic-button'
+import { IconButton } from '@/components/buttons/icon-button'
+import { MaskEditor } from '@/components/mask-editor'
+import { ActionModal } from '@/components/modals/action-modal'
+import {
+  getAvatarPath,
+  reserveAvatarSlots,
+  saveAvatar,
+} from '@/infrastructure/firestore/AvatarOperations'
+import type { OwnedAvatar } from '@/infrastructure/firestore/types'
+import type { UploadHandle } from '@/infrastructure/storage/types'
+import { startUpload } from '@/infrastructure/storage/UploadManager'
+import {
+  BACKGROUND_REMOVAL_CONFIG,
+  ERROR_MESSAGES,
+  IMAGE_VALIDATION_CONFIG,
+  PIXEL_ART_CONFIG,
+} from '@/lib/image/config'
+import { normalizeImage } from '@/lib/image/normalize'
+import type { AlphaMask, ImageResult, ProcessedImage } from '@/lib/image/types'
+
+type Props = {
+  /** アップロード済みのマイアバター */
+  myAvatars: OwnedAvatar[]
+  /** マイアバターの削除 */
+  onRemoveAvatar: (avatar: OwnedAvatar) => Promise<void>
+  /** アップロード完了時に加工時の設定を受け取る */
+  onUploaded: (settings: AvatarProcessSettings) => void
+}
+
+/** アップロード待ちの画像 */
+type PendingImage = {
+  id: string
+  /** 元のファイル名 */
+  name: string
+  /** PNGに正規化済みの画像（加工前） */
+  source: ProcessedImage
+  /** 切り抜き・配置の設定 */
+  framing: AvatarFraming
+  /** 回転・反転・切り抜き後の画像（マスクの適用対象） */
+  base: ProcessedImage
+  /** 背景除去に使用したマスク */
+  mask: AlphaMask | null
+  /** マスクを手動編集したか（編集済みの場合は設定変更時も維持する） */
+  isMaskEdited: boolean
+  /** 加工済みの画像（アップロード対象） */
+  blob: Blob
+  previewUrl: string
+}
+
+/** 加工設定の初期値 */
+const DEFAULT_SETTINGS: AvatarProcessSettings = {
+  removeBackground: true,
+  backgroundRemover: 'flood-fill',
+  backgroundTolerance: BACKGROUND_REMOVAL_CONFIG.defaultTolerance,
+  pixelArt: true,
+  pixelArtOptions: PIXEL_ART_CONFIG.defaultOptions,
+}
+
+/**
+ * 正規化済みの画像に加工を適用してアップロード待ちの画像を作成する
+ */
+const createPendingImage = async (
+  base: Pick<PendingImage, 'id' | 'name' | 'source' | 'framing'> & {
+    editedMask: AlphaMask | null
+  },
+  settings: AvatarProcessSettings,
+): Promise<ImageResult<PendingImage>> => {
+  const result = await processAvatarImage(base.source, settings, {
+    transform: base.framing.transform,
+    editedMask: base.editedMask,
+  })
+  if (!result.success) {
+    return result
+  }
+  return {
+    success: true,
+    value: {
+      id: base.id,
+      name: base.name,
+      source: base.source,
+      framing: base.framing,
+      base: result.value.base,
+      mask: result.value.mask,
+      isMaskEdited: base.editedMask !== null,
+      blob: result.value.image.blob,
+      previewUrl: URL.createObjectURL(result.value.image.blob),
+    },
+  }
+}
+
+export const AvatarUploader = ({
+  myAvatars,
+  onRemoveAvatar,
+  onUploaded,
+}: Props): React.ReactNode => {
+  const { uid, error: authError } = useAuth()
+  const [isOpen, setIsOpen] = useState<boolean>(false)
+  const [isUploading, setIsUploading] = useState<boolean>(false)
+  const [isProcessing, setIsProcessing] = useState<boolean>(false)
+  const [images, setImages] = useState<PendingImage[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [settings, setSettings] =
+    useState<AvatarProcessSettings>(DEFAULT_SETTINGS)
+  const [editingImage, setEditingImage] = useState<PendingImage | null>(null)
+  const [editingMask, setEditingMask] = useState<AlphaMask | null>(null)
+  const [uploads, setUploads] = useState<Record<string, UploadStatus>>({})
+  /** 実行中のアップロードの操作 */
+  const uploadHandlesRef = useRef<Map<string, UploadHandle>>(new Map())
+  /** アップロード済みの画像のURL（再送時はスキップする） */
+  const uploadedUrlsRef = useRef<Map<string, string>>(new Map())
+  /**
+   * 画像ごとに確保した枠のID（アップロード先のパス・アバターのIDに使う）
+   * 保存しなかった枠は解放できないため、次に確保する時に使い回される
+   */
+  const slotIdsRef = useRef<Map<string, string>>(new Map())
+  const [removingId, setRemovingId] = useState<string | null>(null)
+  const [framingImage, setFramingImage] = useState<PendingImage | null>(null)
+  const [editingFraming, setEditingFraming] =
+    useState<AvatarFraming>(DEFAULT_FRAMING)
+
+  const remainingCount = MAX_AVATAR_COUNT - myAvatars.length - images.length
+
+  /**
+   * ドロップされた画像を検証・正規化してプレビューに追加
+   * 不正な画像はスキップし、最後のエラーメッセージを表示する
+   */
+  const handleDrop = async (files: FileWithPath[]) => {
+    setError(null)
+    if (files.length > remainingCount) {
+      setError(`アップロードできる画像は1人${MAX_AVATAR_COUNT}枚までです`)
+    }
+
+    setIsProcessing(true)
+    const accepted: PendingImage[] = []
+    for (const file of files.slice(0, remainingCount)) {
+      const normalized = await normalizeImage(file)
+      if (!normalized.success) {
+        console.warn(
+          'AvatarUploader: 画像の検証エラー',
+          file.name,
+          normalized.error,
+        )
+        setError(`${file.name}: ${normalized.error.message}`)
+        continue
+      }
+      const result = await createPendingImage(
+        {
+          id: uuidv4(),
+          name: file.name,
+          source: normalized.value,
+          framing: DEFAULT_FRAMING,
+          editedMask: null,
+        },
+        settings,
+      )
+      if (!result.success) {
+        setError(`${file.name}: ${result.error.message}`)
+        continue
+      }
+      accepted.push(result.value)
+    }
+    setImages((prev) => [...prev, ...accepted])
+    setIsProcessing(false)
+  }
+
+  /**
+   * 加工設定の変更時に選択済みの画像を再加工する
+   */
+  const handleSettingsChange = async (next: AvatarProcessSettings) => {
+    setSettings(next)
+    setError(null)
+    setIsProcessing(true)
+
+    const processed: PendingImage[] = []
+    for (const image of images) {
+      const result = await createPendingImage(
+        { ...image, editedMask: image.isMaskEdited ? image.mask : null },
+        next,
+      )
+      if (!result.success) {
+        setError(`${image.name}: ${result.error.message}`)
+        processed.push(image)
+        continue
+      }
+      URL.revokeObjectURL(image.previewUrl)
+      processed.push(result.value)
+    }
+    setImages(processed)
+    clearUploadStatus(processed.map((image) => image.id))
+    setIsProcessing(false)
+  }
+
+  const handleOpenFramingEditor = (image: PendingImage) => {
+    setFramingImage(image)
+    setEditingFraming(image.framing)
+  }
+
+  const handleCloseFramingEditor = () => {
+    setFramingImage(null)
+  }
+
+  /**
+   * 切り抜き・配置の変更を反映して再加工
+   * 切り抜きが変わるとマスクのサイズが合わなくなるため、手動編集したマスクは破棄する
+   */
+  const handleSaveFraming = async () => {
+    if (!framingImage) {
+      return
+    }
+
+    setIsProcessing(true)
+    const result = await createPendingImage(
+      { ...framingImage, framing: editingFraming, editedMask: null },
+      settings,
+    )
+    if (result.success) {
+      URL.revokeObjectURL(framingImage.previewUrl)
+      clearUploadStatus([framingImage.id])
+      setImages((prev) =>
+        prev.map((image) =>
+          image.id === framingImage.id ? result.value : image,
+        ),
+      )
+    } else {
+      setError(`${framingImage.name}: ${result.error.message}`)
+    }
+    setIsProcessing(false)
+    handleCloseFramingEditor()
+  }
+
+  const handleOpenMaskEditor = (image: PendingImage) => {
+    setEditingImage(image)
+    setEditingMask(image.mask)
+  }
+
+  const handleCloseMaskEditor = () => {
+    setEditingImage(null)
+    setEditingMask(null)
+  }
+
+  /**
+   * 手動編集したマスクで画像を再加工
+   */
+  const handleSaveMask = async () => {
+    if (!editingImage || !editingMask) {
+      return
+    }
+
+    setIsProcessing(true)
+    const result = await createPendingImage(
+      { ...editingImage, editedMask: editingMask },
+      settings,
+    )
+    if (result.success) {
+      URL.revokeObjectURL(editingImage.previewUrl)
+      clearUploadStatus([editingImage.id])
+      setImages((prev) =>
+        prev.map((image) =>
+          image.id === editingImage.id ? result.value : image,
+        ),
+      )
+    } else {
+      setError(`${editingImage.name}: ${result.error.message}`)
+    }
+    setIsProcessing(false)
+    handleCloseMaskEditor()
+  }
+
+  const handleReject = () => {
+    setError(ERROR_MESSAGES.UNSUPPORTED_TYPE)
+  }
+
+  const handleRemove = (id: string) => {
+    setImages((prev) => {
+      const target = prev.find((image) => image.id === id)
+      if (target) {
+        URL.revokeObjectURL(target.previewUrl)
+      }
+      return prev.filter((image) => image.id !== id)
+    })
+    clearUploadStatus([id])
+    slotIdsRef.current.delete(id)
+  }
+
+  /**
+   * マイアバターを削除して枠を空ける
+   */
+  const handleRemoveMyAvatar = async (avatar: OwnedAvatar) => {
+    setRemovingId(avatar.id)
+    await onRemoveAvatar(avatar)
+    setRemovingId(null)
+  }
+
+  const handleClose = () => {
+    if (isUploading) {
+      return
+    }
+    setError(null)
+    setIsOpen(false)
+  }
+
+  const updateUploadStatus = (id: string, status: UploadStatus) => {
+    setUploads((prev) => ({ ...prev, [id]: status }))
+  }
+
+  /**
+   * 加工し直した画像のアップロード状況を破棄する
+   */
+  const clearUploadStatus = (ids: string[]) => {
+    ids.forEach((id) => uploadedUrlsRef.current.delete(id))
+    setUploads((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([id]) => !ids.includes(id)),
+      ),
+    )
+  }
+
+  /**
+   * 1枚の画像をアップロードしてマイアバターに保存し、成功時はURLを返す
+   */
+  const uploadPendingImage = async (
+    uid: string,
+    image: PendingImage,
+    slotId: string,
+  ): Promise<string | null> => {
+    const uploadedUrl = uploadedUrlsRef.current.get(image.id)
+    if (uploadedUrl) {
+      return uploadedUrl
+    }
+
+    const path = getAvatarPath(uid, slotId)
+    const handle = startUpload(path, image.blob, {
+      contentType: 'image/png',
+      onProgress: (progress) =>
+        updateUploadStatus(image.id, {
+          state: progress.state,
+          ratio: progress.ratio,
+        }),
+    })
+    uploadHandlesRef.current.set(image.id, handle)
+    updateUploadStatus(image.id, { state: 'running', ratio: 0 })
+
+    const result = await handle.result
+    uploadHandlesRef.current.delete(image.id)
+
+    if (!result.success) {
+      console.error('AvatarUploader: アップロードエラー', result.error)
+      updateUploadStatus(image.id, {
+        state: 'error',
+        ratio: 0,
+        error: result.error.message,
+      })
+      return null
+    }
+
+    try {
+      await saveAvatar(uid, {
+        id: slotId,
+        url: result.url,
+        groundAnchor: image.framing.groundAnchor,
+        choreography: image.framing.choreography,
+        path,
+      })
+    } catch (error) {
+      updateUploadStatus(image.id, {
+        state: 'error',
+        ratio: 1,
+        error: (error as Error).message,
+      })
+      return null
+    }
+
+    uploadedUrlsRef.current.set(image.id, result.url)
+    updateUploadStatus(image.id, { state: 'success', ratio: 1 })
+    return result.url
+  }
+
+  /**
+   * 選択した画像をまとめてアップロード
+   * すべて成功した場合のみアバターを差し替える
+   */
+  const handleSave = async () => {
+    if (images.length === 0) {
+      setError('画像を1枚以上選択してください')
+      return
+    }
+
+    if (!uid) {
+      setError(
+        authError ?? 'ログインの準備中です。しばらくしてからお試しください',
+      )
+      return
+    }
+
+    setIsUploading(true)
+    setError(null)
+    const ids = images.map((image) => image.id)
+    const unassignedIds = ids.filter((id) => !slotIdsRef.current.has(id))
+    try {
+      const slotIds = await reserveAvatarSlots(uid, unassignedIds.length, [
+        ...slotIdsRef.current.values(),
+      ])
+      unassignedIds.forEach((id, index) =>
+        slotIdsRef.current.set(id, slotIds[index]),
+      )
+    } catch (error) {
+      setError((error as Error).message)
+      setIsUploading(false)
+      return
+    }
+    const urls = await Promise.all(
+      images.map((image) =>
+        uploadPendingImage(uid, image, slotIdsRef.current.get(image.id)!),
+      ),
+    )
+    setIsUploading(false)
+
+    if (urls.some((url) => url === null)) {
+      setError(
+        'アップロードできなかった画像があります。「適用」で失敗した画像のみ再送します',
+      )
+      return
+    }
+
+    onUploaded(settings)
+    images.forEach((image) => URL.revokeObjectURL(image.previewUrl))
+    clearUploadStatus(ids)
+    ids.forEach((id) => slotIdsRef.current.delete(id))
+    setImages([])
+    setIsOpen(false)
+  }
+
+  return (
+    <>
+      <BasicButton onClick={() => setIsOpen(true)} size="sm">
+        アバターを変更
+      </BasicButton>
+      <ActionModal
+        isOpen={isOpen}
+        onClose={handleClose}
+        onSave={handleSave}
+        isSaving={isUploading}
+        title="アバターをアップロード"
+      >
+        <div className={styles.uploader}>
+          {myAvatars.length > 0 && (
+            <div className={styles.myAvatars}>
+              <p className={styles.sectionTitle}>マイアバター</p>
+              <div className={styles.previews}>
+                {myAvatars.map((avatar) => (
+                  <div key={avatar.id} className={styles.preview}>
+                    <img
+                      src={avatar.url}
+                      alt="my-avatar"
+                      className={styles.previewImage}
+                    />
+                    <div className={styles.previewActions}>
+                      <IconButton
+                        icon={<HiOutlineTrash size={16} />}
+                        onClick={() => handleRemoveMyAvatar(avatar)}
+                        importance="secondary"
+                        loading={removingId === avatar.id}
+                        disabled={isUploading || removingId !== null}
+                        size="sm"
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Dropzone
+            onDrop={handleDrop}
+            onReject={handleReject}
+            accept={IMAGE_VALIDATION_CONFIG.acceptedTypes}
+            maxSize={IMAGE_VALIDATION_CONFIG.maxFileSize}
+            maxFiles={MAX_AVATAR_COUNT}
+            loading={isProcessing}
+            disabled={remainingCount <= 0 || isUploading}
+          >
+            <div className={styles.dropzoneInner}>
+              <HiOutlinePhoto size={48} />
+              <p>ここに画像をドロップ、またはクリックして選択</p>
+              <p className={styles.note}>
+                1人{MAX_AVATAR_COUNT}枚まで（残り{Math.max(remainingCount, 0)}
+                枚）・JPEG / PNG / WebP / HEIC
+              </p>
+            </div>
+          </Dropzone>
+
+          <AvatarProcessSettingsForm
+            settings={settings}
+            onChange={handleSettingsChange}
+            disabled={isProcessing || isUploading}
+          />
+
+          {error && <p className={styles.error}>{error}</p>}
+
+          <div className={styles.previews}>
+            {images.map((image) => (
+              <div key={image.id} className={styles.preview}>
+                <img
+                  src={image.previewUrl}
+                  alt={image.name}
+                  className={styles.previewImage}
+                />
+                {uploads[image.id] && (
+                  <UploadProgress
+                    status={uploads[image.id]}
+                    onPause={() =>
+                      uploadHandlesRef.current.get(image.id)?.pause()
+                    }
+                    onResume={() =>
+                      uploadHandlesRef.current.get(image.id)?.resume()
+                    }
+                    onCancel={() =>
+                      uploadHandlesRef.current.get(image.id)?.cancel()
+                    }
+                  />
+                )}
+                <div className={styles.previewActions}>
+                  <IconButton
+                    icon={<HiOutlineScissors size={16} />}
+                    onClick={() => handleOpenFramingEditor(image)}
+                    importance="secondary"
+                    disabled={isUploading || isProcessing}
+                    size="sm"
+                  />
+                  {image.mask && (
+                    <IconButton
+                      icon={<HiOutlinePaintBrush size={16} />}
+                      onClick={() => handleOpenMaskEditor(image)}
+                      importance="secondary"
+                      disabled={isUploading || isProcessing}
+                      size="sm"
+                    />
+                  )}
+                  <IconButton
+                    icon={<HiOutlineXMark size={16} />}
+                    onClick={() => handleRemove(image.id)}
+                    importance="secondary"
+                    disabled={isUploading}
+                    size="sm"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </ActionModal>
+      <ActionModal
+        isOpen={editingImage !== null}
+        onClose={handleCloseMaskEditor}
+        onSave={handleSaveMask}
+        isSaving={isProcessing}
+        title="背景を編集"
+      >
+        {editingImage && editingImage.mask && (
+          <MaskEditor
+            source={editingImage.base.blob}
+            mask={editingImage.mask}
+            onChange={setEditingMask}
+          />
+        )}
+      </ActionModal>
+      <ActionModal
+        isOpen={framingImage !== null}
+        onClose={handleCloseFramingEditor}
+        onSave={handleSaveFraming}
+        isSaving={isProcessing}
+        title="切り抜き・配置"
+      >
+        {framingImage && (
+          <AvatarEditor
+            source={framingImage.source.blob}
+            value={editingFraming}
+            onChange={setEditingFraming}
+          />
+        )}
+      </ActionModal>
+    </>
+  )
+}
@@ -0,0 +1,123 @@
+/**
+ * アバター画像の加工パイプライン
+ *
+ * @description
+ * - 正規化済みの画像に、ユーザーが選んだ加工を順番に適用する
+ * - 加工はすべてブラウザ内で完結する（サーバー側の背景除去エンジンを選んだ場合を除く）
+ *
+ * @pipeline
+ * 1. 回転・反転・切り抜き
+ * 2. 背景除去（有効な場合。手動編集済みのマスクがあればそれを使用）
+ * 3. ドット絵変換（有効な場合）
+ */
+
+import {
+  getBackgroundRemover,
+  type BackgroundRemoverType,
+} from '@/lib/image/background-remover'
+import { applyMask } from '@/lib/image/mask'
+import { findPalette, paletteToRgb } from '@/lib/image/palette'
+import { convertToPixelArt } from '@/lib/image/pixel-art'
+import { isIdentityTransform, transformImage } from '@/lib/image/transform'
+import type {
+  AlphaMask,
+  ImageResult,
+  ImageTransform,
+  PixelArtOptions,
+  ProcessedImage,
+} from '@/lib/image/types'
+
+/** アバター画像の加工設定 */
+export type AvatarProcessSettings = {
+  /** 背景を除去するか */
+  removeBackground: boolean
+  /** 背景除去エンジン */
+  backgroundRemover: BackgroundRemoverType
+  /** 背景とみなす色の許容範囲（0-100） */
+  backgroundTolerance: number
+  /** ドット絵に変換するか */
+  pixelArt: boolean
+  /** ドット絵変換の設定 */
+  pixelArtOptions: PixelArtOptions
+}
+
+/** 加工結果 */
+export type AvatarProcessResult = {
+  /** 加工済みの画像 */
+  image: ProcessedImage
+  /** 回転・反転・切り抜き後の画像（マスクの適用対象） */
+  base: ProcessedImage
+  /** 背景除去に使用したマスク（背景除去しない場合はnull） */
+  mask: AlphaMask | null
+}
+
+/** 画像ごとの加工の入力 */
+export type AvatarProcessInput = {
+  /** 回転・反転・切り抜き */
+  transform: ImageTransform
+  /** 手動編集済みのマスク（指定時は背景除去エンジンを使わない） */
+  editedMask: AlphaMask | null
+}
+
+/**
+ * 正規化済みの画像に加工を適用する
+ *
+ * @param source PNGに正規化済みの画像
+ * @param settings 加工設定
+ * @param input 画像ごとの変換・手動編集済みのマスク
+ */
+export const processAvatarImage = async (
+  source: ProcessedImage,
+  settings: AvatarProcessSettings,
+  { transform, editedMask }: AvatarProcessInput,
+): Promise<ImageResult<AvatarProcessResult>> => {
+  // 1. 回転・反転・切り抜き
+  let base = source
+  if (!isIdentityTransform(transform)) {
+    const transformed = await transformImage(source.blob, transform)
+    if (!transformed.success) {
+      return transformed
+    }
+    base = transformed.value
+  }
+
+  let image = base
+  let mask: AlphaMask | null = null
+
+  // 2. 背景除去
+  if (settings.removeBackground) {
+    if (editedMask) {
+      mask = editedMask
+    } else {
+      const maskResult = await getBackgroundRemover(
+        settings.backgroundRemover,
+      ).createMask(base.blob, { tolerance: settings.backgroundTolerance })
+      if (!maskResult.success) {
+        return maskResult
+      }
+      mask = maskResult.value
+    }
+
+    const masked = await applyMask(base.blob, mask)
+    if (!masked.success) {
+      return masked
+    }
+    image = masked.value
+  }
+
+  // 3. ドット絵変換
+  if (settings.pixelArt) {
+    const palette = findPalette(settings.pixelArtOptions.paletteName)
+    const converted = await convertToPixelArt(
+      image.blob,
+      settings.pixelArtOptions,
+      palette && paletteToRgb(palette),
+    )
+    if (!converted.success) {
+      return converted
+    }
+    image = converted.value
+  }
+
+  return { success: true, value: { image, base, mask } }
+}
@@ -0,0 +1,172 @@
+'use client'
+
+import { SegmentedControl, Select, Slider, Switch } from '@mantine/core'
+import styles from './style.module.css'
+import type { AvatarProcessSettings } from './pipeline'
+import {
+  createServerRemover,
+  type BackgroundRemoverType,
+} from '@/lib/image/background-remover'
+import { PIXEL_ART_CONFIG } from '@/lib/image/config'
+import { PALETTE_PRESETS } from '@/lib/image/palette'
+import type { QuantizeMethod } from '@/lib/image/types'
+
+/** サーバー側の背景除去エンジンが利用できるか */
+const isServerRemoverAvailable = createServerRemover().isAvailable()
+
+/** パレットを画像から自動で作成する場合の選択値 */
+const AUTO_PALETTE = 'auto'
+
+type Props = {
+  settings: AvatarProcessSettings
+  onChange: (settings: AvatarProcessSettings) => void
+  disabled?: boolean
+}
+
+/**
+ * アバター画像の加工設定フォーム
+ */
+export const AvatarProcessSettingsForm = ({
+  settings,
+  onChange,
+  disabled = false,
+}: Props): React.ReactNode => {
+  const updatePixelArtOptions = (
+    options: Partial<AvatarProcessSettings['pixelArtOptions']>,
+  ) => {
+    onChange({
+      ...settings,
+      pixelArtOptions: { ...settings.pixelArtOptions, ...options },
+    })
+  }
+
+  return (
+    <>
+      <div className={styles.settings}>
+        <Switch
+          label="背景を除去"
+          checked={settings.removeBackground}
+          onChange={(event) =>
+            onChange({
+              ...settings,
+              removeBackground: event.currentTarget.checked,
+            })
+          }
+          disabled={disabled}
+        />
+        {settings.removeBackground && (
+          <>
+            {isServerRemoverAvailable && (
+              <SegmentedControl
+                data={[
+                  { label: 'ブラウザ', value: 'flood-fill' },
+                  { label: 'サーバー', value: 'server' },
+                ]}
+                value={settings.backgroundRemover}
+                onChange={(value) =>
+                  onChange({
+                    ...settings,
+                    backgroundRemover: value as BackgroundRemoverType,
+                  })
+                }
+                disabled={disabled}
+                size="xs"
+              />
+            )}
+            {settings.backgroundRemover === 'flood-fill' && (
+              <div className={styles.tolerance}>
+                <span>色の許容範囲</span>
+                <Slider
+                  defaultValue={settings.backgroundTolerance}
+                  onChangeEnd={(value) =>
+                    onChange({ ...settings, backgroundTolerance: value })
+                  }
+                  min={0}
+                  max={100}
+                  disabled={disabled}
+                />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+      <div className={styles.settings}>
+        <Switch
+          label="ドット絵に変換"
+          checked={settings.pixelArt}
+          onChange={(event) =>
+            onChange({ ...settings, pixelArt: event.currentTarget.checked })
+          }
+          disabled={disabled}
+        />
+        {settings.pixelArt && (
+          <>
+            <SegmentedControl
+              data={PIXEL_ART_CONFIG.gridSizes.map((size) => ({
+                label: `${size}ドット`,
+                value: size.toString(),
+              }))}
+              value={settings.pixelArtOptions.gridSize.toString()}
+              onChange={(value) =>
+                updatePixelArtOptions({ gridSize: Number(value) })
+              }
+              disabled={disabled}
+              size="xs"
+            />
+            <SegmentedControl
+              data={[
+                { label: '色の分割（速い）', value: 'median-cut' },
+                { label: 'クラスタリング（きれい）', value: 'k-means' },
+              ]}
+              value={settings.pixelArtOptions.quantizeMethod}
+              onChange={(value) =>
+                updatePixelArtOptions({
+                  quantizeMethod: value as QuantizeMethod,
+                })
+              }
+              disabled={disabled}
+              size="xs"
+            />
+            <Select
+              data={[
+                { label: '画像から自動', value: AUTO_PALETTE },
+                ...PALETTE_PRESETS.map((palette) => ({
+                  label: palette.label,
+                  value: palette.name,
+                })),
+              ]}
+              value={settings.pixelArtOptions.paletteName ?? AUTO_PALETTE}
+              onChange={(value) =>
+                updatePixelArtOptions({
+                  paletteName: !value || value === AUTO_PALETTE ? null : value,
+                })
+              }
+              allowDeselect={false}
+              disabled={disabled}
+              size="xs"
+              w={160}
+            />
+            <Switch
+              label="ディザリング"
+              checked={settings.pixelArtOptions.dithering}
+              onChange={(event) =>
+                updatePixelArtOptions({
+                  dithering: event.currentTarget.checked,
+                })
+              }
+              disabled={disabled}
+            />
+            <Switch
+              label="輪郭線"
+              checked={settings.pixelArtOptions.outline}
+              onChange={(event) =>
+                updatePixelArtOptions({ outline: event.currentTarget.checked })
+              }
+              disabled={disabled}
+            />
+          </>
+        )}
+      </div>
+    </>
+  )
+}
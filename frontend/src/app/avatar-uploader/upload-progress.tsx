@@ -0,0 +1,92 @@
+'use client'
+
+import { Progress } from '@mantine/core'
+import { HiOutlinePause, HiOutlinePlay, HiOutlineStop } from 'react-icons/hi2'
+import styles from './style.module.css'
+import { IconButton } from '@/components/buttons/icon-button'
+import type { UploadState } from '@/infrastructure/storage/types'
+
+/** 画像ごとのアップロード状況 */
+export type UploadStatus = {
+  /** 状態 */
+  state: UploadState | 'success' | 'error'
+  /** 進捗率（0.0 - 1.0） */
+  ratio: number
+  /** エラーメッセージ（失敗時のみ） */
+  error?: string
+}
+
+type Props = {
+  status: UploadStatus
+  onPause: () => void
+  onResume: () => void
+  onCancel: () => void
+}
+
+/** 状態ごとの表示ラベル */
+const STATE_LABELS: Record<UploadStatus['state'], string> = {
+  running: 'アップロード中',
+  paused: '一時停止中',
+  retrying: '再接続中',
+  success: '完了',
+  error: '失敗',
+}
+
+/**
+ * プレビュー上に重ねて表示するアップロード進捗
+ */
+export const UploadProgress = ({
+  status,
+  onPause,
+  onResume,
+  onCancel,
+}: Props): React.ReactNode => {
+  const isActive =
+    status.state === 'running' ||
+    status.state === 'paused' ||
+    status.state === 'retrying'
+
+  return (
+    <div className={styles.uploadProgress}>
+      <div className={styles.uploadStatus}>
+        <span>
+          {STATE_LABELS[status.state]}
+          {isActive && ` ${Math.round(status.ratio * 100)}%`}
+        </span>
+        {isActive && (
+          <div className={styles.uploadActions}>
+            {status.state === 'paused' ? (
+              <IconButton
+                icon={<HiOutlinePlay size={14} />}
+                onClick={onResume}
+                importance="secondary"
+                size="sm"
+              />
+            ) : (
+              <IconButton
+                icon={<HiOutlinePause size={14} />}
+                onClick={onPause}
+                importance="secondary"
+                disabled={status.state === 'retrying'}
+                size="sm"
+              />
+            )}
+            <IconButton
+              icon={<HiOutlineStop size={14} />}
+              onClick={onCancel}
+              importance="secondary"
+              size="sm"
+            />
+          </div>
+        )}
+      </div>
+      <Progress
+        value={status.ratio * 100}
+        color={status.state === 'error' ? 'red' : 'yellow'}
+        animated={status.state === 'running'}
+        size="sm"
+      />
+      {status.error && <p className={styles.uploadError}>{status.error}</p>}
+    </div>
+  )
+}
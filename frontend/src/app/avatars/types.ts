@@ -0,0 +1,42 @@
+/**
+ * アバター関連の型定義・定数
+ */
+
+import type { ChoreographyPresetName } from '@/components/scene-renderer/config'
+
+/** 表示するアバター */
+export type Avatar = {
+  /** アバターの識別子 */
+  id: string
+  /** 画像のURL */
+  url: string
+  /** 足元の位置（画像の上端を0、下端を1とした割合） */
+  groundAnchor: number
+  /** 動きのプリセット */
+  choreography: ChoreographyPresetName
+}
+
+/** 1人がアップロードできるアバターの最大数 */
+export const MAX_AVATAR_COUNT = 3
+
+/** アップロード前に表示するデフォルトのアバター */
+export const DEFAULT_AVATARS: Avatar[] = [
+  {
+    id: 'default-1',
+    url: '/images/avatar.png',
+    groundAnchor: 1,
+    choreography: 'float',
+  },
+  {
+    id: 'default-2',
+    url: '/images/avatar2.png',
+    groundAnchor: 1,
+    choreography: 'walk',
+  },
+  {
+    id: 'default-3',
+    url: '/images/avatar3.png',
+    groundAnchor: 1,
+    choreography: 'sway',
+  },
+]
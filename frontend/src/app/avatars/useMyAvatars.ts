@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '../auth-provider/useAuth'
+import {
+  deleteAvatar,
+  fetchMyAvatars,
+} from '@/infrastructure/firestore/AvatarOperations'
+import type { OwnedAvatar } from '@/infrastructure/firestore/types'
+
+/**
+ * ログイン中のユーザーがアップロードしたアバターを扱うフック
+ *
+ * @returns マイアバターの一覧と、再取得・削除の操作
+ */
+export const useMyAvatars = () => {
+  const { uid } = useAuth()
+  const [myAvatars, setMyAvatars] = useState<OwnedAvatar[]>([])
+  const [isLoading, setIsLoading] = useState<boolean>(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    if (!uid) {
+      return
+    }
+    setIsLoading(true)
+    try {
+      setMyAvatars(await fetchMyAvatars(uid))
+      setError(null)
+    } catch (error) {
+      setError((error as Error).message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [uid])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  const remove = useCallback(
+    async (avatar: OwnedAvatar) => {
+      if (!uid) {
+        return
+      }
+      try {
+        await deleteAvatar(uid, avatar)
+        setMyAvatars((prev) => prev.filter(({ id }) => id !== avatar.id))
+        setError(null)
+      } catch (error) {
+        setError((error as Error).message)
+      }
+    },
+    [uid],
+  )
+
+  return { myAvatars, isLoading, error, reload, remove }
+}
@@ -0,0 +1,32 @@
+/**
+ * 歌詞表示の設定定数
+ */
+
+/**
+ * 歌い手ごとの設定
+ */
+export type SingerConfig = {
+  /** 歌詞を塗る色 */
+  color: string
+  /** 歌詞の表示位置 */
+  align: 'left' | 'center' | 'right'
+  /** 歌っている間に光らせるアバターの並び順（左から0始まり） */
+  avatarIndex: number
+}
+
+/**
+ * 歌い手ごとの設定（LRCの[singer:...]タグの値がキー）
+ */
+export const SINGERS: Record<string, SingerConfig> = {
+  nyankobrq: { color: '#8fd3ff', align: 'left', avatarIndex: 0 },
+  somunia: { color: '#c9a8ff', align: 'center', avatarIndex: 1 },
+  yaca: { color: '#ff9fd1', align: 'right', avatarIndex: 2 },
+}
+
+/**
+ * 歌い手が決まっていない行（全員で歌う行）の設定
+ */
+export const DEFAULT_SINGER_STYLE: Omit<SingerConfig, 'avatarIndex'> = {
+  color: '#ffd36e',
+  align: 'left',
+}
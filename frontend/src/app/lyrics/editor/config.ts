@@ -0,0 +1,41 @@
+/**
+ * 歌詞タイミングエディタの設定定数
+ */
+
+/**
+ * エディタの設定
+ */
+export const LYRICS_EDITOR_CONFIG = {
+  /** 記録するタイミングの単位（ミリ秒、LRCのセンチ秒に合わせる） */
+  stampResolutionMs: 10,
+  /** 微調整で動かす量（ミリ秒） */
+  nudgeMs: 10,
+  /** Shiftを押しながら微調整した時に動かす量（ミリ秒） */
+  largeNudgeMs: 100,
+  /** 行を頭出しする時に手前から再生する時間（ミリ秒） */
+  previewLeadMs: 2000,
+  /** 書き出すファイル名（拡張子なし） */
+  exportFileName: 'lyrics',
+} as const
+
+/**
+ * 波形タイムラインの設定
+ */
+export const WAVEFORM_TIMELINE_CONFIG = {
+  /** 音量を記録する区間の長さ（ミリ秒） */
+  bucketMs: 20,
+  /** 表示する時間の幅（ミリ秒） */
+  windowMs: 8000,
+  /** タイムラインの高さ（px） */
+  height: 120,
+  /** 波形の色 */
+  waveColor: '#6b5f5c',
+  /** 再生位置の線の色 */
+  playheadColor: '#ffffff',
+  /** 行の開始位置の線の色 */
+  lineMarkerColor: '#ffd36e',
+  /** 選択中の行の線の色 */
+  selectedMarkerColor: '#ff7eb6',
+  /** 単語の開始位置の線の色 */
+  wordMarkerColor: 'rgba(255, 211, 110, 0.4)',
+} as const
@@ -0,0 +1,69 @@
+/**
+ * 歌詞の書き出し
+ *
+ * @description
+ * - 編集した歌詞をTypeScriptのLyric[]形式の文字列に変換する（LRC形式は lrc.ts の serializeLrc）
+ * - 文字列をファイルとしてダウンロードさせる
+ */
+
+import type { Lyric, LyricWord } from '../types'
+
+/**
+ * 文字列をシングルクォートの文字列リテラルにする
+ */
+const toStringLiteral = (value: string): string =>
+  `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+
+const formatWord = (word: LyricWord): string =>
+  `{ text: ${toStringLiteral(word.text)}, startMs: ${word.startMs} }`
+
+const formatLyric = (lyric: Lyric): string => {
+  const fields = [
+    `text: ${toStringLiteral(lyric.text)}`,
+    `showMs: ${lyric.showMs}`,
+  ]
+  if (lyric.words) {
+    const words = lyric.words.map((word) => `      ${formatWord(word)},`)
+    fields.push(['words: [', ...words, '    ]'].join('\n'))
+  }
+  if (lyric.endMs !== undefined) fields.push(`endMs: ${lyric.endMs}`)
+  if (lyric.section) fields.push(`section: ${toStringLiteral(lyric.section)}`)
+  if (lyric.singer) fields.push(`singer: ${toStringLiteral(lyric.singer)}`)
+  return ['  {', ...fields.map((field) => `    ${field},`), '  },'].join('\n')
+}
+
+/**
+ * 歌詞をTypeScriptのLyric[]形式の文字列に変換する
+ *
+ * @param lyrics 歌詞
+ * @returns `export const lyrics: Lyric[] = [...]` 形式のソースコード
+ */
+export const serializeLyricsTs = (lyrics: Lyric[]): string =>
+  [
+    "import type { Lyric } from './types'",
+    '',
+    'export const lyrics: Lyric[] = [',
+    ...lyrics.map(formatLyric),
+    ']',
+    '',
+  ].join('\n')
+
+/**
+ * 文字列をファイルとしてダウンロードさせる
+ *
+ * @param fileName ファイル名
+ * @param content ファイルの内容
+ * @param type MIMEタイプ
+ */
+export const downloadText = (
+  fileName: string,
+  content: string,
+  type: string,
+): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
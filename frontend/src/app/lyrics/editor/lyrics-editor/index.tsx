@@ -0,0 +1,297 @@
+/**
+ * 歌詞タイミングエディタ
+ *
+ * @description
+ * - 曲を再生しながらキーをタップして、行（単語モードでは単語）のタイミングを記録する
+ * - 波形タイムラインで位置を確認し、選択中の行のタイミングを微調整する
+ * - 編集中の歌詞を歌詞表示（Lyrics）でそのままプレビューする
+ * - LRC形式・TypeScriptのLyric[]形式で書き出す
+ *
+ * @shortcuts
+ * - Space: 選択中の行・単語に現在の再生位置を記録して次へ進む
+ * - ↑ / ↓: 行を選択する
+ * - ← / →: 選択中の行を10msずらす（Shiftで100ms）
+ * - Enter: 選択中の行の少し手前から再生する
+ * - P: 再生・一時停止
+ *
+ * @note
+ * - 曲の再生位置は再生時計（PlaybackProvider）から読み、タイムライン・プレビューと揃える
+ * - 記録する時刻は曲の再生位置そのもの（読み込んだLRCの[offset:...]は補正済みで、書き出さない）
+ */
+
+'use client'
+
+import { SegmentedControl } from '@mantine/core'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import styles from './style.module.css'
+import { useLyricsEditor, type StampMode } from './useLyricsEditor'
+import { LYRICS_EDITOR_CONFIG } from '../config'
+import { downloadText, serializeLyricsTs } from '../export'
+import { WaveformTimeline } from '../waveform-timeline'
+import { Lyrics } from '@/app/lyrics'
+import { formatTimestamp, parseLrc, serializeLrc } from '@/app/lyrics/lrc'
+import { useLyrics } from '@/app/lyrics/useLyrics'
+import { DEFAULT_TRACK } from '@/app/music/config'
+import { BasicButton } from '@/components/buttons/basic-button'
+import { PlaybackProvider } from '@/components/playback-provider'
+import { usePlayback } from '@/components/playback-provider/usePlayback'
+import { isShortcutEvent } from '@/components/transport-controls/shortcuts'
+import { useAudioAnalyser } from '@/components/waveform-visualizer/useAudioAnalyser'
+
+/**
+ * エディタ本体（PlaybackProviderの内側で描画する）
+ */
+const LyricsEditorContent = (): React.ReactNode => {
+  const { audioRef, state, getCurrentTime, play, pause, seek } = usePlayback()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { lyrics: sourceLyrics, error: loadError } = useLyrics(
+    DEFAULT_TRACK.lyricsSrc,
+  )
+  const {
+    lyrics,
+    selectedIndex,
+    wordIndex,
+    orderErrors,
+    reset,
+    select,
+    stamp,
+    nudge,
+  } = useLyricsEditor()
+  const [mode, setMode] = useState<StampMode>('line')
+  const [message, setMessage] = useState<string | null>(null)
+  const { analyserNode, isInitialized, initializeAnalyser } = useAudioAnalyser()
+
+  // 曲の歌詞ファイルを読み込んだら編集を始める
+  useEffect(() => {
+    reset(sourceLyrics)
+  }, [sourceLyrics, reset])
+
+  /**
+   * 選択中の行の少し手前から再生する
+   */
+  const previewSelected = useCallback(() => {
+    const lyric = lyrics[selectedIndex]
+    if (!lyric) {
+      return
+    }
+    seek(lyric.showMs - LYRICS_EDITOR_CONFIG.previewLeadMs)
+    play()
+  }, [lyrics, selectedIndex, seek, play])
+
+  /**
+   * キーボード操作
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // 修飾キー付きの入力・入力欄・ボタン・audio要素のコントロールなどの操作は邪魔しない
+      if (!isShortcutEvent(event)) {
+        return
+      }
+      const nudgeMs = event.shiftKey
+        ? LYRICS_EDITOR_CONFIG.largeNudgeMs
+        : LYRICS_EDITOR_CONFIG.nudgeMs
+
+      switch (event.key) {
+        case ' ':
+          stamp(getCurrentTime(), mode)
+          break
+        case 'ArrowUp':
+          select(selectedIndex - 1)
+          break
+        case 'ArrowDown':
+          select(selectedIndex + 1)
+          break
+        case 'ArrowLeft':
+          nudge(-nudgeMs)
+          break
+        case 'ArrowRight':
+          nudge(nudgeMs)
+          break
+        case 'Enter':
+          previewSelected()
+          break
+        case 'p':
+          if (state === 'playing') {
+            pause()
+          } else {
+            play()
+          }
+          break
+        default:
+          return
+      }
+      event.preventDefault()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [
+    getCurrentTime,
+    mode,
+    nudge,
+    pause,
+    play,
+    previewSelected,
+    select,
+    selectedIndex,
+    stamp,
+    state,
+  ])
+
+  /**
+   * 再生を始めたら波形を記録するためにAnalyserNodeを接続する
+   */
+  const handlePlay = () => {
+    if (audioRef.current && !isInitialized) {
+      initializeAnalyser(audioRef.current)
+    }
+  }
+
+  /**
+   * LRCファイルを読み込んで編集中の歌詞と差し替える
+   */
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.currentTarget.files?.[0]
+    event.currentTarget.value = ''
+    if (!file) {
+      return
+    }
+    const result = parseLrc(await file.text())
+    if (!result.success) {
+      const { message, line } = result.error
+      setMessage(line ? `${line}行目: ${message}` : message)
+      return
+    }
+    reset(result.value.lyrics)
+    setMessage(`${file.name} を読み込みました`)
+  }
+
+  /**
+   * 歌詞を書き出す（タイミングの順番が正しくない場合は書き出さない）
+   */
+  const handleExport = (format: 'lrc' | 'ts') => {
+    if (orderErrors.length > 0) {
+      setMessage(
+        `${orderErrors[0] + 1}行目のタイミングが前の行より前になっています`,
+      )
+      return
+    }
+    const fileName = `${LYRICS_EDITOR_CONFIG.exportFileName}.${format}`
+    if (format === 'lrc') {
+      downloadText(fileName, serializeLrc(lyrics), 'text/plain')
+    } else {
+      downloadText(fileName, serializeLyricsTs(lyrics), 'text/typescript')
+    }
+    setMessage(`${fileName} を書き出しました`)
+  }
+
+  return (
+    <div className={styles.container}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>歌詞タイミングエディタ</h1>
+        <div className={styles.actions}>
+          <BasicButton
+            importance="secondary"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            LRCを読み込む
+          </BasicButton>
+          <BasicButton size="sm" onClick={() => handleExport('lrc')}>
+            LRCで書き出す
+          </BasicButton>
+          <BasicButton size="sm" onClick={() => handleExport('ts')}>
+            TSで書き出す
+          </BasicButton>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".lrc,text/plain"
+            hidden
+            onChange={handleImport}
+          />
+        </div>
+      </header>
+
+      {(message ?? loadError) && (
+        <p className={styles.message}>{message ?? loadError}</p>
+      )}
+
+      <audio
+        ref={audioRef}
+        className={styles.audio}
+        src={DEFAULT_TRACK.src}
+        controls
+        preload="auto"
+        onPlay={handlePlay}
+      />
+
+      <WaveformTimeline
+        analyserNode={analyserNode}
+        lyrics={lyrics}
+        selectedIndex={selectedIndex}
+      />
+
+      <div className={styles.preview}>
+        <Lyrics lyrics={lyrics} />
+      </div>
+
+      <div className={styles.toolbar}>
+        <SegmentedControl
+          size="xs"
+          value={mode}
+          onChange={(value) => setMode(value as StampMode)}
+          data={[
+            { label: '行ごと', value: 'line' },
+            { label: '単語ごと', value: 'word' },
+          ]}
+        />
+        <p className={styles.help}>
+          Space: 記録 / ↑↓: 行を選択 / ←→: 微調整（Shiftで大きく） / Enter:
+          頭出し / P: 再生・一時停止
+        </p>
+      </div>
+
+      <ol className={styles.lines}>
+        {lyrics.map((lyric, index) => (
+          <li
+            key={index}
+            className={styles.line}
+            data-selected={index === selectedIndex}
+            data-error={orderErrors.includes(index)}
+            onClick={() => select(index)}
+          >
+            <span className={styles.time}>{formatTimestamp(lyric.showMs)}</span>
+            <span className={styles.text}>
+              {lyric.words
+                ? lyric.words.map((word, position) => (
+                    <span
+                      key={position}
+                      className={styles.word}
+                      data-next={
+                        mode === 'word' &&
+                        index === selectedIndex &&
+                        position === wordIndex
+                      }
+                      title={formatTimestamp(word.startMs)}
+                    >
+                      {word.text}
+                    </span>
+                  ))
+                : lyric.text || '（間奏）'}
+            </span>
+            {lyric.singer && (
+              <span className={styles.singer}>{lyric.singer}</span>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
+export const LyricsEditor = (): React.ReactNode => (
+  <PlaybackProvider>
+    <LyricsEditorContent />
+  </PlaybackProvider>
+)
@@ -0,0 +1,179 @@
+/**
+ * 歌詞タイミング編集フック
+ *
+ * @description
+ * - 編集中の歌詞と選択中の行・単語を管理する
+ * - タップした時刻を選択中の行（単語モードでは単語）に記録し、次へ進める
+ * - 選択中の行のタイミングをまとめてずらす（微調整）
+ *
+ * @usage_example
+ * ```typescript
+ * const editor = useLyricsEditor()
+ * editor.reset(lyrics)
+ * editor.stamp(getCurrentTime())
+ * editor.nudge(10)
+ * ```
+ */
+
+'use client'
+
+import { useCallback, useMemo, useState } from 'react'
+import { LYRICS_EDITOR_CONFIG } from '../config'
+import type { Lyric, LyricWord } from '../../types'
+
+/** 記録の単位 */
+export type StampMode = 'line' | 'word'
+
+type LyricsEditorState = {
+  /** 編集中の歌詞 */
+  lyrics: Lyric[]
+  /** 選択中の行 */
+  selectedIndex: number
+  /** 単語モードで次に記録する単語 */
+  wordIndex: number
+}
+
+type LyricsEditorHook = LyricsEditorState & {
+  /** 前の行より前のタイミングになっている行のインデックス */
+  orderErrors: number[]
+  /** 編集する歌詞を差し替える */
+  reset: (lyrics: Lyric[]) => void
+  /** 行を選択する */
+  select: (index: number) => void
+  /** 選択中の行・単語に時刻を記録して次へ進める */
+  stamp: (timeMs: number, mode: StampMode) => void
+  /** 選択中の行のタイミングをずらす */
+  nudge: (deltaMs: number) => void
+}
+
+/**
+ * 行の文字列を空白の後ろで単語に分ける（空白は前の単語に含める）
+ */
+const splitWords = (lyric: Lyric): LyricWord[] =>
+  lyric.text
+    .split(/(?<=\s)/)
+    .filter((text) => text)
+    .map((text) => ({ text, startMs: lyric.showMs }))
+
+/**
+ * 記録の単位に丸める
+ */
+const roundStamp = (ms: number): number =>
+  Math.max(
+    0,
+    Math.round(ms / LYRICS_EDITOR_CONFIG.stampResolutionMs) *
+      LYRICS_EDITOR_CONFIG.stampResolutionMs,
+  )
+
+/**
+ * 行のタイミング（単語・終わりの位置を含む）をまとめてずらす
+ */
+const shiftLyric = (lyric: Lyric, deltaMs: number): Lyric => ({
+  ...lyric,
+  showMs: Math.max(0, lyric.showMs + deltaMs),
+  ...(lyric.words && {
+    words: lyric.words.map((word) => ({
+      ...word,
+      startMs: Math.max(0, word.startMs + deltaMs),
+    })),
+  }),
+  ...(lyric.endMs !== undefined && {
+    endMs: Math.max(0, lyric.endMs + deltaMs),
+  }),
+})
+
+export const useLyricsEditor = (): LyricsEditorHook => {
+  const [state, setState] = useState<LyricsEditorState>({
+    lyrics: [],
+    selectedIndex: 0,
+    wordIndex: 0,
+  })
+
+  const reset = useCallback((lyrics: Lyric[]) => {
+    setState({ lyrics, selectedIndex: 0, wordIndex: 0 })
+  }, [])
+
+  const select = useCallback((index: number) => {
+    setState((prev) => ({
+      ...prev,
+      selectedIndex: Math.min(Math.max(index, 0), prev.lyrics.length - 1),
+      wordIndex: 0,
+    }))
+  }, [])
+
+  const stamp = useCallback((timeMs: number, mode: StampMode) => {
+    const time = roundStamp(timeMs)
+    setState((prev) => {
+      const lyric = prev.lyrics[prev.selectedIndex]
+      if (!lyric) {
+        return prev
+      }
+      const lyrics = [...prev.lyrics]
+      const lastIndex = lyrics.length - 1
+
+      // 行モード: 行ごと（単語があれば単語も）記録した時刻に移す
+      const words = mode === 'word' ? (lyric.words ?? splitWords(lyric)) : []
+      if (mode === 'line' || words.length === 0) {
+        lyrics[prev.selectedIndex] = shiftLyric(lyric, time - lyric.showMs)
+        return {
+          lyrics,
+          selectedIndex: Math.min(prev.selectedIndex + 1, lastIndex),
+          wordIndex: 0,
+        }
+      }
+
+      // 単語モード: 単語に記録し、まだ記録していない後ろの単語が前に来ないようにする
+      const nextWords = words.map((word, index) => {
+        if (index === prev.wordIndex) return { ...word, startMs: time }
+        if (index > prev.wordIndex) {
+          return { ...word, startMs: Math.max(word.startMs, time) }
+        }
+        return word
+      })
+      const nextLyric: Lyric = {
+        ...lyric,
+        showMs: prev.wordIndex === 0 ? time : lyric.showMs,
+        words: nextWords,
+      }
+      if (nextLyric.endMs !== undefined && nextLyric.endMs < time) {
+        delete nextLyric.endMs
+      }
+      lyrics[prev.selectedIndex] = nextLyric
+
+      const isLastWord = prev.wordIndex >= nextWords.length - 1
+      return {
+        lyrics,
+        selectedIndex: isLastWord
+          ? Math.min(prev.selectedIndex + 1, lastIndex)
+          : prev.selectedIndex,
+        wordIndex: isLastWord ? 0 : prev.wordIndex + 1,
+      }
+    })
+  }, [])
+
+  const nudge = useCallback((deltaMs: number) => {
+    setState((prev) => {
+      const lyric = prev.lyrics[prev.selectedIndex]
+      if (!lyric) {
+        return prev
+      }
+      const lyrics = [...prev.lyrics]
+      lyrics[prev.selectedIndex] = shiftLyric(lyric, deltaMs)
+      return { ...prev, lyrics }
+    })
+  }, [])
+
+  const orderErrors = useMemo(
+    () =>
+      state.lyrics
+        .map((lyric, index) =>
+          index > 0 && lyric.showMs <= state.lyrics[index - 1].showMs
+            ? index
+            : -1,
+        )
+        .filter((index) => index >= 0),
+    [state.lyrics],
+  )
+
+  return { ...state, orderErrors, reset, select, stamp, nudge }
+}
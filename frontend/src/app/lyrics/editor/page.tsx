@@ -0,0 +1,13 @@
+/**
+ * 歌詞タイミングエディタページ（サーバーコンポーネント）
+ *
+ * @description
+ * - 曲を再生しながら歌詞のタイミング（showMs）をタップで記録・微調整する（/lyrics/editor）
+ * - 編集はクライアントコンポーネントで行う
+ */
+
+import { LyricsEditor } from './lyrics-editor'
+
+export default function LyricsEditorPage() {
+  return <LyricsEditor />
+}
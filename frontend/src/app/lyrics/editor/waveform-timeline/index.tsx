@@ -0,0 +1,186 @@
+/**
+ * 波形タイムライン
+ *
+ * @description
+ * - 再生中にAnalyserNodeの波形データから音量を記録し、曲の時間軸に並べて表示する
+ * - 再生位置を中央にして前後の波形と、行・単語のタイミングを線で表示する
+ * - クリックした位置にシークする
+ * - 再生位置・曲の長さは再生時計（PlaybackProvider）から読む
+ *
+ * @canvas_rendering
+ * 1. 波形: 記録した区間ごとの音量を中央から上下に伸びる棒で描画する（未再生の区間は空白）
+ * 2. 単語の線: 単語の開始位置に薄い線を描画する
+ * 3. 行の線: 行の開始位置に線を描画する（選択中の行は色を変える）
+ * 4. 再生位置: 中央に縦線を描画する
+ */
+
+'use client'
+
+import { useEffect, useRef } from 'react'
+import styles from './style.module.css'
+import { WAVEFORM_TIMELINE_CONFIG } from '../config'
+import type { Lyric } from '../../types'
+import { usePlayback } from '@/components/playback-provider/usePlayback'
+import { CANVAS_CONFIG } from '@/components/waveform-visualizer/config'
+
+type Props = {
+  /** 再生中の曲に接続したAnalyserNode */
+  analyserNode: AnalyserNode | null
+  /** 歌詞 */
+  lyrics: Lyric[]
+  /** 選択中の行 */
+  selectedIndex: number
+}
+
+export const WaveformTimeline = ({
+  analyserNode,
+  lyrics,
+  selectedIndex,
+}: Props): React.ReactNode => {
+  const { state, durationMs, getCurrentTime, seek } = usePlayback()
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  /** 区間ごとの音量（0〜1） */
+  const levelsRef = useRef<Float32Array>(new Float32Array(0))
+  /** フレームループから参照する最新のprops */
+  const timelineRef = useRef({ analyserNode, lyrics, selectedIndex, state })
+
+  useEffect(() => {
+    timelineRef.current = { analyserNode, lyrics, selectedIndex, state }
+  }, [analyserNode, lyrics, selectedIndex, state])
+
+  /**
+   * 曲の長さが分かったら記録用の配列を用意する
+   */
+  useEffect(() => {
+    const length = Math.ceil(durationMs / WAVEFORM_TIMELINE_CONFIG.bucketMs)
+    if (levelsRef.current.length !== length) {
+      levelsRef.current = new Float32Array(length)
+    }
+  }, [durationMs])
+
+  /**
+   * フレームループ（音量の記録と描画）
+   */
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) {
+      console.error('WaveformTimeline: Canvas要素が見つかりません')
+      return
+    }
+
+    const { bucketMs, windowMs, height } = WAVEFORM_TIMELINE_CONFIG
+    let width = 0
+    let samples = new Float32Array(0)
+    let animationId = 0
+
+    const resize = () => {
+      const devicePixelRatio = Math.min(
+        window.devicePixelRatio || 1,
+        CANVAS_CONFIG.maxDevicePixelRatio,
+      )
+      width = canvas.clientWidth
+      canvas.width = Math.round(width * devicePixelRatio)
+      canvas.height = Math.round(height * devicePixelRatio)
+      context.setTransform(devicePixelRatio, 0, 0, devicePixelRatio, 0, 0)
+    }
+    resize()
+    const resizeObserver = new ResizeObserver(resize)
+    resizeObserver.observe(canvas)
+
+    const draw = () => {
+      const { analyserNode, lyrics, selectedIndex, state } = timelineRef.current
+      const levels = levelsRef.current
+      const currentMs = getCurrentTime()
+
+      // 再生中の区間の音量（波形の最大振幅）を記録する
+      if (analyserNode && state === 'playing') {
+        if (samples.length !== analyserNode.fftSize) {
+          samples = new Float32Array(analyserNode.fftSize)
+        }
+        analyserNode.getFloatTimeDomainData(samples)
+        let peak = 0
+        for (const sample of samples) {
+          peak = Math.max(peak, Math.abs(sample))
+        }
+        const bucket = Math.floor(currentMs / bucketMs)
+        if (bucket < levels.length) {
+          levels[bucket] = Math.max(levels[bucket], Math.min(peak, 1))
+        }
+      }
+
+      const startMs = currentMs - windowMs / 2
+      const toX = (timeMs: number) => ((timeMs - startMs) / windowMs) * width
+      const centerY = height / 2
+      context.clearRect(0, 0, width, height)
+
+      // 波形
+      context.fillStyle = WAVEFORM_TIMELINE_CONFIG.waveColor
+      const barWidth = Math.max((bucketMs / windowMs) * width, 1)
+      const firstBucket = Math.max(Math.floor(startMs / bucketMs), 0)
+      const lastBucket = Math.min(
+        Math.ceil((startMs + windowMs) / bucketMs),
+        levels.length - 1,
+      )
+      for (let bucket = firstBucket; bucket <= lastBucket; bucket++) {
+        const barHeight = levels[bucket] * (height - 8)
+        context.fillRect(
+          toX(bucket * bucketMs),
+          centerY - barHeight / 2,
+          barWidth,
+          barHeight,
+        )
+      }
+
+      // 行・単語のタイミング
+      lyrics.forEach((lyric, index) => {
+        lyric.words?.forEach((word) => {
+          const x = toX(word.startMs)
+          if (x >= 0 && x <= width) {
+            context.fillStyle = WAVEFORM_TIMELINE_CONFIG.wordMarkerColor
+            context.fillRect(Math.round(x), 16, 1, height - 16)
+          }
+        })
+        const x = toX(lyric.showMs)
+        if (x < 0 || x > width) {
+          return
+        }
+        context.fillStyle =
+          index === selectedIndex
+            ? WAVEFORM_TIMELINE_CONFIG.selectedMarkerColor
+            : WAVEFORM_TIMELINE_CONFIG.lineMarkerColor
+        context.fillRect(Math.round(x) - 1, 0, 2, height)
+        context.font = '12px sans-serif'
+        context.fillText(String(index + 1), Math.round(x) + 4, 12)
+      })
+
+      // 再生位置
+      context.fillStyle = WAVEFORM_TIMELINE_CONFIG.playheadColor
+      context.fillRect(Math.round(width / 2), 0, 1, height)
+
+      animationId = requestAnimationFrame(draw)
+    }
+    animationId = requestAnimationFrame(draw)
+
+    return () => {
+      cancelAnimationFrame(animationId)
+      resizeObserver.disconnect()
+    }
+  }, [getCurrentTime])
+
+  const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const ratio = (event.clientX - rect.left) / rect.width
+    const { windowMs } = WAVEFORM_TIMELINE_CONFIG
+    seek(getCurrentTime() + (ratio - 0.5) * windowMs)
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={styles.timeline}
+      style={{ height: WAVEFORM_TIMELINE_CONFIG.height }}
+      onClick={handleClick}
+    />
+  )
+}
@@ -2,88 +2,133 @@
  * 歌詞表示コンポーネント
  *
  * @description
- * - 指定されたタイミングで歌詞を自動的に切り替え表示
- * - 各歌詞のshowMsに基づいてタイマー制御
- * - 最後の歌詞まで表示したら終了する
- * - isPlayingがtrueの時のみ歌詞表示を開始
+ * - 再生時計（PlaybackProvider）の再生位置に合わせて歌詞を切り替え表示
+ * - 再生位置から表示する行を二分探索で求めるため、音声とずれない
+ * - 一時停止中は歌詞もそのまま止まり、シーク時は移動先の歌詞を表示する
+ * - 歌詞は親で読み込んで渡す（LRCファイルは useLyrics、編集中の歌詞はエディタから）
+ * - 歌っている位置まで文字に色を塗るカラオケ表示と、次の行のプレビューを表示する
+ * - 歌い手ごとに歌詞の色・位置を変え、セクションが変わったら親に通知する
  *
  * @features
- * - タイミング制御による歌詞表示
- * - 自動的な歌詞切り替え
- * - メモリリーク防止のタイマークリーンアップ
- * - 再生状態に連動した歌詞表示制御
+ * - 再生位置に連動した歌詞表示
+ * - 再生中は毎フレーム、停止中はシークなどの時に再生時計から通知を受けて追従
+ * - 読み込み待ち（バッファリング）で音声が止まっている間は歌詞も進まない
+ * - 拡張LRCの単語タイミングがある行は単語ごと、ない行は1文字ずつ塗る
+ * - 塗り具合は再描画せずCSS変数（--fill）を直接更新する
+ * - 歌い手ごとの色・位置は SINGERS で管理
  *
  * @timing
- * - 各歌詞は配列で定義されたshowMs（ミリ秒）で表示開始
- * - 前の歌詞からの差分時間でタイマーを設定
- * - isPlayingがfalseの時は最初の歌詞で停止
+ * - 各歌詞はLRCのタイムスタンプ（showMs、ミリ秒）で表示開始
+ * - 曲全体のずれはLRCの[offset:...]タグで、ファイルごとに補正する
  */
 
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { usePlayback } from '@/components/playback-provider/usePlayback'
+import { DEFAULT_SINGER_STYLE, SINGERS } from './config'
 import styles from './style.module.css'
-import { lyrics } from './types'
+import { findLyricIndex, getLyricSegments, getSegmentProgress } from './timing'
+import type { Lyric, LyricSection, LyricSegment } from './types'
 
 type Props = {
-  isPlaying: boolean
+  /** 歌詞（showMsの昇順） */
+  lyrics: Lyric[]
+  /** 表示中の行のセクション・歌い手が変わった時のコールバック */
+  onSectionChange?: (section: LyricSection | null) => void
 }
 
-export const Lyrics = ({ isPlaying }: Props): React.ReactNode => {
+/**
+ * 区間ごとの塗り具合をCSS変数に反映する
+ */
+const paintSegments = (
+  elements: (HTMLSpanElement | null)[],
+  segments: LyricSegment[],
+  timeMs: number,
+) => {
+  segments.forEach((segment, index) => {
+    elements[index]?.style.setProperty(
+      '--fill',
+      `${getSegmentProgress(segment, timeMs) * 100}%`,
+    )
+  })
+}
+
+export const Lyrics = ({ lyrics, onSectionChange }: Props): React.ReactNode => {
+  const { getCurrentTime, subscribeFrame } = usePlayback()
   const [currentLyricIndex, setCurrentLyricIndex] = useState<number>(0)
+  const segments = useMemo(
+    () => getLyricSegments(lyrics, currentLyricIndex),
+    [lyrics, currentLyricIndex],
+  )
+  const segmentsRef = useRef<LyricSegment[]>(segments)
+  const segmentElementsRef = useRef<(HTMLSpanElement | null)[]>([])
+  const currentLyric = lyrics[currentLyricIndex]
+  const sectionName = currentLyric?.section ?? null
+  const singer = currentLyric?.singer ?? null
+  const singerStyle = (singer && SINGERS[singer]) || DEFAULT_SINGER_STYLE
 
   /**
-   * 歌詞表示タイマーの設定
-   * isPlayingがtrueの時のみ各歌詞のshowMsに基づいて自動切り替えを実行
+   * セクション・歌い手が変わったら親に通知する
    */
   useEffect(() => {
-    // 再生中でない場合は最初の歌詞インデックスに戻す
-    if (!isPlaying) {
-      setCurrentLyricIndex(0)
-      console.log('Lyrics: 再生停止により歌詞を初期化しました')
-      return
-    }
-
-    const timers: NodeJS.Timeout[] = []
-
-    // 再生開始時のログ
-    console.log('Lyrics: 歌詞表示タイマーを開始します')
-
-    // 各歌詞のタイマーを設定
-    lyrics.forEach((lyric, index) => {
-      const timer = setTimeout(() => {
-        setCurrentLyricIndex(index)
-        console.log(
-          `Lyrics: 歌詞表示 ${index + 1}/${lyrics.length} - "${lyric.text}"`,
-        )
-      }, lyric.showMs + 500)
+    onSectionChange?.(sectionName ? { name: sectionName, singer } : null)
+  }, [onSectionChange, sectionName, singer])
 
-      timers.push(timer)
-    })
-
-    // クリーンアップ関数でタイマーを削除
-    return () => {
-      timers.forEach((timer) => {
-        clearTimeout(timer)
-      })
-      console.log('Lyrics: タイマーをクリーンアップしました')
-    }
-  }, [isPlaying])
+  /**
+   * 行が切り替わったら新しい行の塗り具合を反映する（一時停止中のシークにも対応）
+   */
+  useEffect(() => {
+    segmentsRef.current = segments
+    paintSegments(segmentElementsRef.current, segments, getCurrentTime())
+  }, [getCurrentTime, segments])
 
   /**
-   * 現在表示する歌詞テキストを取得
+   * 再生時計を購読して表示する行を更新する
    */
-  const getCurrentLyricText = (): string => {
-    if (currentLyricIndex >= 0 && currentLyricIndex < lyrics.length) {
-      return lyrics[currentLyricIndex].text
+  useEffect(() => {
+    if (lyrics.length === 0) {
+      return
     }
-    return lyrics[0].text // フォールバック
-  }
+
+    const update = (timeMs: number) => {
+      const index = findLyricIndex(lyrics, timeMs)
+      paintSegments(segmentElementsRef.current, segmentsRef.current, timeMs)
+      setCurrentLyricIndex(index)
+    }
+
+    update(getCurrentTime())
+    return subscribeFrame(update)
+  }, [lyrics, getCurrentTime, subscribeFrame])
 
   return (
     <div className={styles.lyrics}>
-      <div className={styles.lyricsInner}>
-        <p className={styles.lyricsText}>{getCurrentLyricText()}</p>
+      <div
+        className={styles.lyricsInner}
+        style={
+          {
+            '--singer-color': singerStyle.color,
+            textAlign: singerStyle.align,
+          } as React.CSSProperties
+        }
+      >
+        {/* keyで行ごとに要素を作り直し、切り替えのアニメーションを再生する */}
+        <p key={currentLyricIndex} className={styles.lyricsText}>
+          {segments.map((segment, index) => (
+            <span
+              key={index}
+              ref={(element) => {
+                segmentElementsRef.current[index] = element
+              }}
+              className={styles.segment}
+            >
+              {segment.text}
+            </span>
+          ))}
+        </p>
+        <p className={styles.lyricsNext}>
+          {lyrics[currentLyricIndex + 1]?.text ?? ''}
+        </p>
       </div>
     </div>
   )
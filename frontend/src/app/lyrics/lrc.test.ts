@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { parseLrc, serializeLrc } from './lrc'
+
+describe('parseLrc', () => {
+  it('[offset:...]でファイルごとにタイミングを補正する（正の値で早め、負の値で遅らせる）', () => {
+    const source = '[00:02.00]<00:02.00>君と <00:02.50>過ごす\n[00:04.00]夜\n'
+
+    const early = parseLrc(`[offset:200]\n${source}`)
+    const late = parseLrc(`[offset:-500]\n${source}`)
+
+    expect(early.success && early.value.lyrics.map((l) => l.showMs)).toEqual([
+      1800, 3800,
+    ])
+    expect(late.success && late.value.lyrics.map((l) => l.showMs)).toEqual([
+      2500, 4500,
+    ])
+    expect(
+      late.success && late.value.lyrics[0].words?.map((w) => w.startMs),
+    ).toEqual([2500, 3000])
+  })
+
+  it('補正済みの時刻で書き出し、読み直すと同じ歌詞になる', () => {
+    const parsed = parseLrc('[offset:-500]\n[00:02.00]君と\n[00:04.00]夜\n')
+    if (!parsed.success) {
+      throw new Error(parsed.error.message)
+    }
+
+    const serialized = serializeLrc(parsed.value.lyrics)
+    const reparsed = parseLrc(serialized)
+
+    expect(serialized).not.toContain('offset')
+    expect(reparsed.success && reparsed.value.lyrics).toEqual(
+      parsed.value.lyrics,
+    )
+  })
+
+  it('繰り返し行を時刻ごとの行に展開し、時刻順に並べる', () => {
+    const result = parseLrc(
+      [
+        '[section:hook]',
+        '[00:10.00][00:30.00]<00:10.00>ダメ <00:10.50>だよ',
+        '[section:verse]',
+        '[00:20.00]今の暮らし',
+      ].join('\n'),
+    )
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    expect(
+      result.value.lyrics.map(({ text, showMs, section }) => ({
+        text,
+        showMs,
+        section,
+      })),
+    ).toEqual([
+      { text: 'ダメ だよ', showMs: 10_000, section: 'hook' },
+      { text: '今の暮らし', showMs: 20_000, section: 'verse' },
+      { text: 'ダメ だよ', showMs: 30_000, section: 'hook' },
+    ])
+    expect(result.value.lyrics[2].words?.map((w) => w.startMs)).toEqual([
+      30_000, 30_500,
+    ])
+  })
+
+  it('繰り返し行の形式が正しくないタグ・同じ時刻の行はエラーにする', () => {
+    const invalid = parseLrc('[00:10.00][0x:30]ダメだよ')
+    const duplicated = parseLrc('[00:10.00][00:30.00]ダメだよ\n[00:30.00]今')
+
+    expect(!invalid.success && invalid.error).toMatchObject({
+      code: 'INVALID_TIMESTAMP',
+      line: 1,
+    })
+    expect(!duplicated.success && duplicated.error).toMatchObject({
+      code: 'NON_MONOTONIC',
+    })
+  })
+
+  it('繰り返しでない行の順序が逆になっている場合はエラーにする', () => {
+    const result = parseLrc('[00:20.00]今\n[00:10.00]ダメ')
+
+    expect(!result.success && result.error).toMatchObject({
+      code: 'NON_MONOTONIC',
+      line: 2,
+    })
+  })
+})
@@ -0,0 +1,355 @@
+/**
+ * LRC形式の歌詞の読み書き
+ *
+ * @description
+ * - LRC（[mm:ss.xx]歌詞）と拡張LRC（行内の<mm:ss.xx>単語タグ）をLyricの配列に変換する
+ * - タイムスタンプが行の順に増加しているかを検証し、問題のある行番号をエラーで返す
+ * - [00:12.00][00:45.00]歌詞 のような繰り返し行は時刻ごとの行に展開し、時刻順に並べ替える
+ * - [section:...]・[singer:...]タグで以降の行のセクションと歌い手を指定する
+ * - Lyricの配列をLRC形式の文字列に戻す
+ *
+ * @format
+ * ```
+ * [ti:曲名]
+ * [ar:アーティスト]
+ * [offset:0]
+ * # コメント（読み飛ばす）
+ * [section:verse]
+ * [singer:nyankobrq]
+ * [00:02.18]君と過ごす夜 少しアーバン
+ * [00:07.24]<00:07.24>送る <00:07.80>データは <00:08.40>膨大
+ * [00:11.00][01:20.00]ダメだよ！ 愛してtwinkle night
+ * ```
+ */
+
+import type {
+  LrcDocument,
+  LrcError,
+  LrcErrorCode,
+  LrcMetadata,
+  LrcResult,
+  Lyric,
+  LyricWord,
+} from './types'
+
+/** タイムスタンプ（mm:ss、mm:ss.x〜mm:ss.xxx） */
+const TIMESTAMP_PATTERN = /^(\d+):(\d{1,2})(?:[.:](\d{1,3}))?$/
+
+/** 行頭のタイムスタンプタグ */
+const LINE_TAG_PATTERN = /^\[([^\]]*)\]/
+
+/** IDタグ（[ti:...]など） */
+const ID_TAG_PATTERN = /^\[([a-z#]+):(.*)\]$/i
+
+/** 行内の単語タグ */
+const WORD_TAG_PATTERN = /<([^>]*)>/g
+
+const lrcError = (
+  code: LrcErrorCode,
+  message: string,
+  line: number | null,
+): { success: false; error: LrcError } => ({
+  success: false,
+  error: { code, message, line },
+})
+
+/**
+ * タイムスタンプの文字列をミリ秒に変換する
+ *
+ * @param value mm:ss.xx形式の文字列
+ * @returns ミリ秒（形式が不正な場合はnull）
+ */
+export const parseTimestamp = (value: string): number | null => {
+  const match = TIMESTAMP_PATTERN.exec(value.trim())
+  if (!match) {
+    return null
+  }
+  const minutes = Number(match[1])
+  const seconds = Number(match[2])
+  if (seconds >= 60) {
+    return null
+  }
+  // 小数部は桁数に関わらず秒の小数として扱う（.5 → 500ms、.50 → 500ms）
+  const fraction = match[3] ? Number(match[3].padEnd(3, '0')) : 0
+  return minutes * 60_000 + seconds * 1000 + fraction
+}
+
+/**
+ * ミリ秒をタイムスタンプの文字列に変換する
+ *
+ * @param ms ミリ秒
+ * @returns mm:ss.xx形式（10ms単位で表せない場合はmm:ss.xxx）
+ */
+export const formatTimestamp = (ms: number): string => {
+  const total = Math.max(0, Math.round(ms))
+  const minutes = Math.floor(total / 60_000)
+  const seconds = Math.floor((total % 60_000) / 1000)
+  const millis = total % 1000
+  const fraction =
+    millis % 10 === 0
+      ? String(millis / 10).padStart(2, '0')
+      : String(millis).padStart(3, '0')
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${fraction}`
+}
+
+/**
+ * 行内の単語タグを単語の配列に変換する
+ *
+ * @returns 単語の配列（単語タグがない場合はnull）と行末タグの位置
+ */
+const parseWords = (
+  body: string,
+  lineStartMs: number,
+  offsetMs: number,
+  lineNumber: number,
+): LrcResult<{
+  text: string
+  words: LyricWord[] | null
+  endMs: number | null
+}> => {
+  const tags = [...body.matchAll(WORD_TAG_PATTERN)]
+  if (tags.length === 0) {
+    return { success: true, value: { text: body, words: null, endMs: null } }
+  }
+
+  const words: LyricWord[] = []
+  let endMs: number | null = null
+  // 最初の単語タグより前の文字列は行の開始時刻から歌う
+  const leading = body.slice(0, tags[0].index)
+  if (leading) {
+    words.push({ text: leading, startMs: lineStartMs })
+  }
+
+  for (const [index, tag] of tags.entries()) {
+    const time = parseTimestamp(tag[1])
+    if (time === null) {
+      return lrcError(
+        'INVALID_TIMESTAMP',
+        `単語のタイムスタンプ「${tag[1]}」の形式が正しくありません`,
+        lineNumber,
+      )
+    }
+    const startMs = time - offsetMs
+    const previous = words.at(-1)?.startMs ?? lineStartMs
+    if (startMs < previous) {
+      return lrcError(
+        'NON_MONOTONIC',
+        `単語のタイムスタンプ「${tag[1]}」が前の単語より前になっています`,
+        lineNumber,
+      )
+    }
+    const end = tags[index + 1]?.index ?? body.length
+    const text = body.slice(tag.index + tag[0].length, end)
+    // 行末の単語タグは単語にせず、行を歌い終える位置として扱う
+    if (text) {
+      words.push({ text, startMs })
+    } else if (index === tags.length - 1) {
+      endMs = startMs
+    }
+  }
+
+  return {
+    success: true,
+    value: { text: words.map((word) => word.text).join(''), words, endMs },
+  }
+}
+
+/**
+ * 行を別の時刻に移した歌詞を作る（繰り返し行の展開用）
+ */
+const shiftLyric = (lyric: Lyric, deltaMs: number): Lyric => {
+  const shifted: Lyric = { ...lyric, showMs: lyric.showMs + deltaMs }
+  if (lyric.words) {
+    shifted.words = lyric.words.map((word) => ({
+      ...word,
+      startMs: word.startMs + deltaMs,
+    }))
+  }
+  if (lyric.endMs !== undefined) shifted.endMs = lyric.endMs + deltaMs
+  return shifted
+}
+
+/**
+ * LRC形式の文字列を歌詞に変換する
+ *
+ * @description
+ * - 1つのタイムスタンプの行は、前の行より後の時刻になっているかを検証する
+ * - 繰り返し行は時刻ごとの行に展開し（単語タグは最初の時刻からの差で移す）、最後に時刻順に並べ替える
+ * - 並べ替えた結果、同じ時刻の行がある場合はエラーにする
+ *
+ * @param source LRC形式の文字列
+ * @returns メタデータと歌詞
+ */
+export const parseLrc = (source: string): LrcResult<LrcDocument> => {
+  const metadata: LrcMetadata = { offsetMs: 0 }
+  /** 歌詞と、その行番号 */
+  const entries: { lyric: Lyric; lineNumber: number }[] = []
+  /** 直前の（繰り返しでない）行の表示開始時刻 */
+  let previousShowMs: number | null = null
+  // 以降の行に付けるセクションと歌い手（[section:...]で歌い手はリセットする）
+  let section: string | undefined
+  let singer: string | undefined
+  const lines = source.replace(/^\uFEFF/, '').split(/\r?\n/)
+
+  for (const [index, rawLine] of lines.entries()) {
+    const lineNumber = index + 1
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) {
+      continue
+    }
+
+    const lineTag = LINE_TAG_PATTERN.exec(line)
+    if (!lineTag) {
+      return lrcError(
+        'INVALID_LINE',
+        'タイムスタンプのない行があります',
+        lineNumber,
+      )
+    }
+
+    const time = parseTimestamp(lineTag[1])
+    if (time === null) {
+      const idTag = ID_TAG_PATTERN.exec(line)
+      if (!idTag) {
+        return lrcError(
+          'INVALID_TIMESTAMP',
+          `タイムスタンプ「${lineTag[1]}」の形式が正しくありません`,
+          lineNumber,
+        )
+      }
+      const key = idTag[1].toLowerCase()
+      const value = idTag[2].trim()
+      if (key === 'ti') metadata.title = value
+      if (key === 'ar') metadata.artist = value
+      if (key === 'al') metadata.album = value
+      if (key === 'section') {
+        section = value || undefined
+        singer = undefined
+      }
+      if (key === 'singer') singer = value || undefined
+      if (key === 'offset') {
+        const offset = Number(value)
+        if (!Number.isFinite(offset)) {
+          return lrcError(
+            'INVALID_TIMESTAMP',
+            `offset「${value}」が数値ではありません`,
+            lineNumber,
+          )
+        }
+        metadata.offsetMs = offset
+      }
+      continue
+    }
+
+    // [00:12.00][00:45.00]歌詞 のような繰り返し行のタイムスタンプを全て読む
+    const times = [time]
+    let body = line.slice(lineTag[0].length)
+    for (
+      let repeatedTag = LINE_TAG_PATTERN.exec(body);
+      repeatedTag;
+      repeatedTag = LINE_TAG_PATTERN.exec(body)
+    ) {
+      const repeatedTime = parseTimestamp(repeatedTag[1])
+      if (repeatedTime === null) {
+        return lrcError(
+          'INVALID_TIMESTAMP',
+          `タイムスタンプ「${repeatedTag[1]}」の形式が正しくありません`,
+          lineNumber,
+        )
+      }
+      times.push(repeatedTime)
+      body = body.slice(repeatedTag[0].length)
+    }
+
+    const showMs = time - metadata.offsetMs
+    // 繰り返し行は別の位置の行と同じ内容のため、行の順序は検証せず最後に並べ替える
+    if (times.length === 1) {
+      if (previousShowMs !== null && showMs <= previousShowMs) {
+        return lrcError(
+          'NON_MONOTONIC',
+          `タイムスタンプ「${lineTag[1]}」が前の行より前になっています`,
+          lineNumber,
+        )
+      }
+      previousShowMs = showMs
+    }
+
+    const parsed = parseWords(body, showMs, metadata.offsetMs, lineNumber)
+    if (!parsed.success) {
+      return { success: false, error: parsed.error }
+    }
+    const { text, words, endMs } = parsed.value
+    const lyric: Lyric = { text, showMs }
+    if (words) lyric.words = words
+    if (endMs !== null) lyric.endMs = endMs
+    if (section) lyric.section = section
+    if (singer) lyric.singer = singer
+    for (const repeatedTime of times) {
+      entries.push({
+        lyric: shiftLyric(lyric, repeatedTime - time),
+        lineNumber,
+      })
+    }
+  }
+
+  if (entries.length === 0) {
+    return lrcError('EMPTY', '歌詞がありません', null)
+  }
+
+  entries.sort((a, b) => a.lyric.showMs - b.lyric.showMs)
+  for (const [index, { lyric, lineNumber }] of entries.entries()) {
+    if (index > 0 && lyric.showMs === entries[index - 1].lyric.showMs) {
+      return lrcError(
+        'NON_MONOTONIC',
+        `タイムスタンプ「${formatTimestamp(lyric.showMs)}」の行が他にもあります`,
+        lineNumber,
+      )
+    }
+  }
+
+  return {
+    success: true,
+    value: { metadata, lyrics: entries.map(({ lyric }) => lyric) },
+  }
+}
+
+/**
+ * 歌詞をLRC形式の文字列に変換する
+ *
+ * @param lyrics showMsの昇順に並んだ歌詞
+ * @param metadata 書き出すメタデータ（時刻は補正済みのためoffsetは書き出さない）
+ * @returns LRC形式の文字列（単語のタイミングがある行は拡張LRCで書き出す）
+ */
+export const serializeLrc = (
+  lyrics: Lyric[],
+  metadata?: Omit<LrcMetadata, 'offsetMs'>,
+): string => {
+  const lines: string[] = []
+  if (metadata?.title) lines.push(`[ti:${metadata.title}]`)
+  if (metadata?.artist) lines.push(`[ar:${metadata.artist}]`)
+  if (metadata?.album) lines.push(`[al:${metadata.album}]`)
+
+  let previous: Lyric | undefined
+  for (const lyric of lyrics) {
+    // セクション・歌い手が変わる行の前にタグを書き出す
+    const isSectionChanged = lyric.section !== previous?.section
+    if (isSectionChanged) {
+      lines.push(`[section:${lyric.section ?? ''}]`)
+    }
+    // [section:...]で歌い手はリセットされるため、セクションが変わった行は歌い手があれば書き出す
+    if (isSectionChanged ? lyric.singer : lyric.singer !== previous?.singer) {
+      lines.push(`[singer:${lyric.singer ?? ''}]`)
+    }
+    previous = lyric
+
+    const body = lyric.words
+      ? lyric.words
+          .map((word) => `<${formatTimestamp(word.startMs)}>${word.text}`)
+          .join('') +
+        (lyric.endMs !== undefined ? `<${formatTimestamp(lyric.endMs)}>` : '')
+      : lyric.text
+    lines.push(`[${formatTimestamp(lyric.showMs)}]${body}`)
+  }
+
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,127 @@
+/**
+ * 歌詞のタイミング計算
+ *
+ * @description
+ * - 曲の再生位置から表示する歌詞の行を求める
+ * - 歌詞はshowMsの昇順に並んでいる前提で二分探索する
+ * - カラオケ表示で色を塗る区間と、その塗り具合を求める
+ * - セクションの始まりの再生位置を求める
+ */
+
+import type { Lyric, LyricSectionStart, LyricSegment } from './types'
+
+/**
+ * 歌詞の表示タイミングの設定
+ */
+export const LYRICS_TIMING_CONFIG = {
+  /** 単語のタイミングがない行で1文字を塗るのにかける最大時間（ミリ秒、間奏前の行が間延びしないように） */
+  maxCharFillMs: 350,
+} as const
+
+/**
+ * 再生位置で表示する歌詞の行を二分探索で求める
+ *
+ * @param lyrics showMsの昇順に並んだ歌詞
+ * @param timeMs 曲の再生位置（ミリ秒）
+ * @returns 表示する行のインデックス（最初の行より前の場合は0）
+ */
+export const findLyricIndex = (lyrics: Lyric[], timeMs: number): number => {
+  let low = 0
+  let high = lyrics.length - 1
+  let found = 0
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    if (lyrics[middle].showMs <= timeMs) {
+      found = middle
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+  return found
+}
+
+/**
+ * 行をカラオケ表示で色を塗る区間に分ける
+ *
+ * @description
+ * - 単語のタイミングがある行は単語ごとに区切る
+ * - ない行（showMsのみの行）は1文字ずつに区切り、行の表示時間で均等に塗る
+ *
+ * @param lyrics showMsの昇順に並んだ歌詞
+ * @param index 区切る行のインデックス
+ * @returns 区間の配列（歌詞が空の行は空配列）
+ */
+export const getLyricSegments = (
+  lyrics: Lyric[],
+  index: number,
+): LyricSegment[] => {
+  const lyric = lyrics[index]
+  if (!lyric?.text) {
+    return []
+  }
+
+  const characters = Array.from(lyric.text)
+  const nextShowMs = lyrics[index + 1]?.showMs ?? Infinity
+  const maxEndMs =
+    lyric.showMs + characters.length * LYRICS_TIMING_CONFIG.maxCharFillMs
+  const endMs = lyric.endMs ?? Math.min(nextShowMs, maxEndMs)
+
+  if (lyric.words) {
+    return lyric.words.map((word, wordIndex) => ({
+      text: word.text,
+      startMs: word.startMs,
+      endMs: lyric.words?.[wordIndex + 1]?.startMs ?? endMs,
+    }))
+  }
+
+  const charMs = (endMs - lyric.showMs) / characters.length
+  return characters.map((character, charIndex) => ({
+    text: character,
+    startMs: lyric.showMs + charMs * charIndex,
+    endMs: lyric.showMs + charMs * (charIndex + 1),
+  }))
+}
+
+/**
+ * 区間の塗り具合を求める
+ *
+ * @param segment 区間
+ * @param timeMs 曲の再生位置（ミリ秒）
+ * @returns 0（未着手）〜1（塗り終わり）
+ */
+export const getSegmentProgress = (
+  segment: LyricSegment,
+  timeMs: number,
+): number => {
+  if (timeMs <= segment.startMs) {
+    return 0
+  }
+  if (timeMs >= segment.endMs) {
+    return 1
+  }
+  return (timeMs - segment.startMs) / (segment.endMs - segment.startMs)
+}
+
+/**
+ * セクション・歌い手が変わる行から、セクションの始まりを求める
+ *
+ * @param lyrics showMsの昇順に並んだ歌詞
+ * @returns セクションの始まり（曲の再生位置の昇順）
+ */
+export const getSectionStarts = (lyrics: Lyric[]): LyricSectionStart[] =>
+  lyrics.flatMap((lyric, index) => {
+    const previous = lyrics[index - 1]
+    if (
+      !lyric.section ||
+      (lyric.section === previous?.section && lyric.singer === previous?.singer)
+    ) {
+      return []
+    }
+    return [
+      {
+        section: { name: lyric.section, singer: lyric.singer ?? null },
+        timeMs: lyric.showMs,
+      },
+    ]
+  })
@@ -0,0 +1,95 @@
+/**
+ * 歌詞読み込みフック
+ *
+ * @description
+ * - LRCファイルを取得してLyricの配列に変換する
+ * - 取得・パースに失敗した場合はエラーメッセージを返し、歌詞は空のままにする
+ * - 歌詞ファイルがない曲（srcがnull）は空の歌詞を返す
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { parseLrc } from './lrc'
+import type { Lyric } from './types'
+
+type UseLyricsResult = {
+  /** 歌詞（showMsの昇順） */
+  lyrics: Lyric[]
+  /** 読み込み中かどうか */
+  isLoading: boolean
+  /** エラーメッセージ */
+  error: string | null
+}
+
+/**
+ * LRCファイルから歌詞を読み込む
+ *
+ * @param src LRCファイルのパス（歌詞がない場合はnull）
+ */
+export const useLyrics = (src: string | null): UseLyricsResult => {
+  const [lyrics, setLyrics] = useState<Lyric[]>([])
+  const [isLoading, setIsLoading] = useState<boolean>(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let isCancelled = false
+
+    if (src === null) {
+      setLyrics([])
+      setError(null)
+      setIsLoading(false)
+      return
+    }
+
+    const load = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(src)
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`)
+        }
+        const result = parseLrc(await response.text())
+        if (isCancelled) {
+          return
+        }
+        if (!result.success) {
+          const { message, line } = result.error
+          console.error(
+            `useLyrics: 歌詞のパースに失敗 (${src}:${line ?? '-'})`,
+            message,
+          )
+          setLyrics([])
+          setError(message)
+          return
+        }
+        console.log(
+          'useLyrics: 歌詞読み込み完了 -',
+          result.value.lyrics.length,
+          '行',
+        )
+        setLyrics(result.value.lyrics)
+      } catch (error) {
+        if (isCancelled) {
+          return
+        }
+        console.error('useLyrics: 歌詞の取得に失敗', error)
+        setLyrics([])
+        setError('歌詞の読み込みに失敗しました')
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false)
+        }
+      }
+    }
+
+    load()
+
+    return () => {
+      isCancelled = true
+    }
+  }, [src])
+
+  return { lyrics, isLoading, error }
+}
@@ -0,0 +1,37 @@
+/**
+ * BGMの設定定数
+ */
+
+import type { Track } from './types'
+
+/**
+ * BGMの設定
+ */
+export const MUSIC_CONFIG = {
+  /** 曲の一覧（マニフェスト）のパス */
+  manifestSrc: '/tracks.json',
+  /** 音量の初期値（0〜1） */
+  volume: 0.5,
+} as const
+
+/**
+ * 既定の曲（曲の一覧を読み込むまで・読み込めなかった場合に使う）
+ * 曲の情報は public/tracks.json で管理し、これはその先頭の曲の写し（manifest.test.ts で一致を検証する）
+ */
+export const DEFAULT_TRACK: Track = {
+  id: 'twinkle-night',
+  title: 'twinkle night feat.somunia',
+  artist: 'nyankobrq & yaca',
+  src: '/audio/twinkle_night.mp3',
+  lyricsSrc: '/lyrics/twinkle_night.lrc',
+  layers: null,
+  credits: [
+    { role: 'Music', name: 'nyankobrq & yaca' },
+    { role: 'Vocal', name: 'somunia' },
+  ],
+  link: {
+    url: 'https://www.youtube.com/watch?v=uUvthLpSHrQ',
+    label: 'YouTubeでMVを見る',
+  },
+  bpm: 174.5,
+}
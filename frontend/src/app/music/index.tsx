@@ -1,31 +1,101 @@
+/**
+ * BGM・歌詞・再生操作
+ *
+ * @description
+ * - 選んでいる曲の音声・歌詞を再生時計に合わせて表示する
+ * - 曲が2曲以上ある場合は曲の選択を表示し、再生中に切り替えたら新しい曲を続けて再生する
+ * - 音を鳴らす同意・曲の終わりの「もう一回」を表示する
+ */
 'use client'
 
 import { BackgroundMusic } from '@/components/background-music'
-import { useState } from 'react'
+import { usePlayback } from '@/components/playback-provider/usePlayback'
+import { TransportControls } from '@/components/transport-controls'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { MUSIC_CONFIG } from './config'
 import styles from './style.module.css'
+import type { Track } from './types'
 import { Lyrics } from '../lyrics'
+import { getSectionStarts } from '../lyrics/timing'
+import type { LyricSection } from '../lyrics/types'
+import { useLyrics } from '../lyrics/useLyrics'
+import { TrackSelector } from '../track-selector'
 
-export const Music = (): React.ReactNode => {
-  const [isPlaying, setIsPlaying] = useState<boolean>(false)
+type Props = {
+  /** 再生する曲 */
+  track: Track
+  /** 曲の一覧 */
+  tracks: Track[]
+  /** 曲を選んだ時のコールバック */
+  onTrackChange: (trackId: string) => void
+  /** AnalyserNodeの作成・破棄時のコールバック */
+  onAnalyserChange?: (analyserNode: AnalyserNode | null) => void
+  /** 歌詞のセクション・歌い手の変更時のコールバック */
+  onSectionChange?: (section: LyricSection | null) => void
+}
+
+export const Music = ({
+  track,
+  tracks,
+  onTrackChange,
+  onAnalyserChange,
+  onSectionChange,
+}: Props): React.ReactNode => {
+  const { state, play, replay } = usePlayback()
+  // 音を鳴らすことに同意したか（同意するまで再生操作は表示しない）
+  const [hasConsented, setHasConsented] = useState<boolean>(false)
+  // 曲を切り替えたら、新しい曲を読み込んだ後に続けて再生する
+  const shouldResumeRef = useRef<boolean>(false)
+  const { lyrics } = useLyrics(track.lyricsSrc)
+  const markers = useMemo(
+    () =>
+      getSectionStarts(lyrics).map(({ section, timeMs }) => ({
+        timeMs,
+        label: section.singer ?? section.name,
+      })),
+    [lyrics],
+  )
+
+  useEffect(() => {
+    if (shouldResumeRef.current) {
+      shouldResumeRef.current = false
+      play()
+    }
+  }, [track.src, play])
 
   const handlePlay = () => {
-    setIsPlaying(true)
+    setHasConsented(true)
+    play()
+  }
+
+  const handleTrackChange = (trackId: string) => {
+    shouldResumeRef.current = hasConsented
+    onTrackChange(trackId)
   }
 
   return (
     <>
       {/* BGM再生（クライアントコンポーネント） */}
       <BackgroundMusic
-        src="/audio/twinkle_night.mp3"
-        volume={0.5}
+        src={track.src}
+        link={track.link}
+        volume={MUSIC_CONFIG.volume}
         loop={false}
-        isPlaying={isPlaying}
+        onAnalyserChange={onAnalyserChange}
       />
 
-      <Lyrics isPlaying={isPlaying} />
+      <Lyrics lyrics={lyrics} onSectionChange={onSectionChange} />
 
-      {/* 音の再生の同意をとる */}
-      {isPlaying ? null : (
+      <TrackSelector
+        tracks={tracks}
+        track={track}
+        onChange={handleTrackChange}
+      />
+
+      {hasConsented && <TransportControls markers={markers} />}
+
+      {/* 音の再生の同意をとる（曲が終わったらもう一度聴くか聞く） */}
+      {!hasConsented ? (
         <div className={styles.permission}>
           <span className={styles.permissionText}>音を鳴らしてもいい？</span>
           <button
@@ -37,7 +107,14 @@ export const Music = (): React.ReactNode => {
             いいよ！
           </button>
         </div>
-      )}
+      ) : state === 'ended' ? (
+        <div className={styles.permission}>
+          <span className={styles.permissionText}>もう一回聴く？</span>
+          <button className={styles.permissionButton} onClick={replay}>
+            もう一回！
+          </button>
+        </div>
+      ) : null}
     </>
   )
 }
@@ -0,0 +1,49 @@
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_TRACK } from './config'
+import { parseTrackManifest } from './manifest'
+
+/** public/tracks.json の内容 */
+const readManifest = (): unknown =>
+  JSON.parse(
+    readFileSync(resolve(__dirname, '../../../public/tracks.json'), 'utf8'),
+  )
+
+describe('parseTrackManifest', () => {
+  it('public/tracks.json を読み込め、先頭の曲が既定の曲と一致する', () => {
+    const result = parseTrackManifest(readManifest())
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    expect(result.value.tracks[0]).toEqual(DEFAULT_TRACK)
+  })
+
+  it('省略した項目を既定値で補う', () => {
+    const result = parseTrackManifest({
+      tracks: [{ id: 'a', title: 'A', artist: 'B', src: '/audio/a.mp3' }],
+    })
+
+    expect(result.success && result.value.tracks[0]).toEqual({
+      id: 'a',
+      title: 'A',
+      artist: 'B',
+      src: '/audio/a.mp3',
+      lyricsSrc: null,
+      layers: null,
+      credits: [],
+      link: null,
+      bpm: null,
+    })
+  })
+
+  it('不正な項目・重複したIDはエラーにする', () => {
+    const track = { id: 'a', title: 'A', artist: 'B', src: '/audio/a.mp3' }
+
+    expect(parseTrackManifest({ tracks: [] }).success).toBe(false)
+    expect(
+      parseTrackManifest({ tracks: [{ ...track, bpm: -1 }] }).success,
+    ).toBe(false)
+    expect(parseTrackManifest({ tracks: [track, track] }).success).toBe(false)
+  })
+})
@@ -0,0 +1,208 @@
+/**
+ * 曲の一覧（マニフェスト）の読み込み
+ *
+ * @description
+ * - public/tracks.json の内容を検証し、Trackの配列に変換する
+ * - 省略できる項目（歌詞・背景の層・クレジット・リンク・BPM）は既定値で補う
+ * - 不正な内容は例外ではなく、どの曲のどの項目かを示すエラーメッセージで返す
+ *
+ * @manifest_format
+ * ```json
+ * {
+ *   "tracks": [
+ *     {
+ *       "id": "twinkle-night",
+ *       "title": "twinkle night feat.somunia",
+ *       "artist": "nyankobrq & yaca",
+ *       "src": "/audio/twinkle_night.mp3",
+ *       "lyricsSrc": "/lyrics/twinkle_night.lrc",
+ *       "layers": [{ "id": "sky", "src": "/images/twinkle-bg.png", ... }],
+ *       "credits": [{ "role": "Vocal", "name": "somunia" }],
+ *       "link": { "url": "https://...", "label": "YouTubeでMVを見る" },
+ *       "bpm": 128
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+
+import type { ParallaxLayer } from '@/components/scene-renderer/types'
+import type {
+  Track,
+  TrackCredit,
+  TrackLink,
+  TrackManifestResult,
+} from './types'
+
+/** 項目の検証結果（失敗した場合はエラーメッセージ） */
+type FieldResult<T> =
+  | { success: true; value: T }
+  | { success: false; error: string }
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+/**
+ * パララックスの層を検証する
+ */
+const parseLayer = (value: unknown): FieldResult<ParallaxLayer> => {
+  if (!isRecord(value) || !isString(value.id) || !isString(value.src)) {
+    return { success: false, error: 'layersの各層にはidとsrcが必要です' }
+  }
+  const {
+    id,
+    src,
+    height = 'cover',
+    offsetY = 0,
+    scrollDuration = null,
+    repeat = false,
+    opacity = 1,
+    depth = 'back',
+  } = value
+  if (
+    !(height === 'cover' || (isNumber(height) && height > 0)) ||
+    !isNumber(offsetY) ||
+    !(
+      scrollDuration === null ||
+      (isNumber(scrollDuration) && scrollDuration > 0)
+    ) ||
+    typeof repeat !== 'boolean' ||
+    !(isNumber(opacity) && opacity >= 0 && opacity <= 1) ||
+    !(depth === 'back' || depth === 'front')
+  ) {
+    return { success: false, error: `layersの層「${id}」の設定が不正です` }
+  }
+  return {
+    success: true,
+    value: { id, src, height, offsetY, scrollDuration, repeat, opacity, depth },
+  }
+}
+
+/**
+ * 曲を1つ検証する
+ *
+ * @param value マニフェストの曲
+ * @param index 曲の位置（エラーメッセージ用）
+ */
+const parseTrack = (value: unknown, index: number): FieldResult<Track> => {
+  const fail = (message: string): FieldResult<Track> => ({
+    success: false,
+    error: `tracks[${index}]: ${message}`,
+  })
+
+  if (!isRecord(value)) {
+    return fail('曲はオブジェクトで指定してください')
+  }
+  const {
+    id,
+    title,
+    artist = '',
+    src,
+    lyricsSrc = null,
+    layers = null,
+    credits = [],
+    link = null,
+    bpm = null,
+  } = value
+  if (!isString(id) || !isString(title) || !isString(src)) {
+    return fail('id・title・srcは必須です')
+  }
+  if (typeof artist !== 'string') {
+    return fail('artistは文字列で指定してください')
+  }
+  if (lyricsSrc !== null && !isString(lyricsSrc)) {
+    return fail('lyricsSrcは文字列またはnullで指定してください')
+  }
+  if (bpm !== null && !(isNumber(bpm) && bpm > 0)) {
+    return fail('bpmは正の数またはnullで指定してください')
+  }
+
+  let parsedLayers: ParallaxLayer[] | null = null
+  if (layers !== null) {
+    if (!Array.isArray(layers) || layers.length === 0) {
+      return fail('layersは1つ以上の層の配列またはnullで指定してください')
+    }
+    parsedLayers = []
+    for (const layer of layers) {
+      const result = parseLayer(layer)
+      if (!result.success) {
+        return fail(result.error)
+      }
+      parsedLayers.push(result.value)
+    }
+  }
+
+  if (
+    !Array.isArray(credits) ||
+    !credits.every(
+      (credit) =>
+        isRecord(credit) && isString(credit.role) && isString(credit.name),
+    )
+  ) {
+    return fail('creditsはroleとnameを持つオブジェクトの配列で指定してください')
+  }
+
+  let parsedLink: TrackLink | null = null
+  if (link !== null) {
+    if (!isRecord(link) || !isString(link.url)) {
+      return fail('linkはurlを持つオブジェクトまたはnullで指定してください')
+    }
+    parsedLink = {
+      url: link.url,
+      label: isString(link.label) ? link.label : title,
+    }
+  }
+
+  return {
+    success: true,
+    value: {
+      id,
+      title,
+      artist,
+      src,
+      lyricsSrc,
+      layers: parsedLayers,
+      credits: credits.map(({ role, name }: TrackCredit) => ({ role, name })),
+      link: parsedLink,
+      bpm,
+    },
+  }
+}
+
+/**
+ * 曲の一覧（マニフェスト）を検証する
+ *
+ * @param source JSONとしてパースしたマニフェスト
+ * @returns 曲の一覧、またはエラーメッセージ
+ */
+export const parseTrackManifest = (source: unknown): TrackManifestResult => {
+  if (!isRecord(source) || !Array.isArray(source.tracks)) {
+    return { success: false, error: 'tracksの配列がありません' }
+  }
+  if (source.tracks.length === 0) {
+    return { success: false, error: '曲が1つもありません' }
+  }
+
+  const tracks: Track[] = []
+  for (const [index, value] of source.tracks.entries()) {
+    const result = parseTrack(value, index)
+    if (!result.success) {
+      return { success: false, error: result.error }
+    }
+    if (tracks.some((track) => track.id === result.value.id)) {
+      return {
+        success: false,
+        error: `tracks[${index}]: id「${result.value.id}」が重複しています`,
+      }
+    }
+    tracks.push(result.value)
+  }
+
+  return { success: true, value: { tracks } }
+}
@@ -0,0 +1,57 @@
+/**
+ * 曲（トラック）の型定義
+ */
+
+import type { ParallaxLayer } from '@/components/scene-renderer/types'
+
+/** 曲のクレジットの1行 */
+export type TrackCredit = {
+  /** 役割（例: ボーカル） */
+  role: string
+  /** 名前 */
+  name: string
+}
+
+/** 曲の外部リンク（MVなど） */
+export type TrackLink = {
+  /** リンク先のURL */
+  url: string
+  /** リンクの説明（アイコンのラベルに使う） */
+  label: string
+}
+
+/**
+ * 舞台で再生する曲
+ * 音声・歌詞・背景の層をまとめて持ち、曲を切り替えると舞台ごと切り替わる
+ */
+export type Track = {
+  /** 曲の識別子 */
+  id: string
+  /** 曲名 */
+  title: string
+  /** アーティスト名 */
+  artist: string
+  /** 音声ファイルのパス */
+  src: string
+  /** 歌詞ファイル（LRC形式）のパス（歌詞がない場合はnull） */
+  lyricsSrc: string | null
+  /** 背景のパララックスの層（nullの場合は既定の夜空と街） */
+  layers: ParallaxLayer[] | null
+  /** クレジット */
+  credits: TrackCredit[]
+  /** 外部リンク（ない場合はnull） */
+  link: TrackLink | null
+  /** 曲のBPM（アバターの動きを拍に揃える。不明な場合はnullで同期しない） */
+  bpm: number | null
+}
+
+/** 曲の一覧（public/tracks.json） */
+export type TrackManifest = {
+  /** 曲（先頭の曲を最初に再生する） */
+  tracks: Track[]
+}
+
+/** 曲の一覧の読み込み結果 */
+export type TrackManifestResult =
+  | { success: true; value: TrackManifest }
+  | { success: false; error: string }
@@ -0,0 +1,86 @@
+/**
+ * 曲の一覧の読み込みフック
+ *
+ * @description
+ * - 曲の一覧（public/tracks.json）を取得して検証する
+ * - 読み込むまで・読み込めなかった場合は既定の曲だけを返す（舞台は常に曲を再生できる）
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { DEFAULT_TRACK, MUSIC_CONFIG } from './config'
+import { parseTrackManifest } from './manifest'
+import type { Track } from './types'
+
+type UseTracksResult = {
+  /** 曲の一覧（1曲以上） */
+  tracks: Track[]
+  /** 読み込み中かどうか */
+  isLoading: boolean
+  /** エラーメッセージ */
+  error: string | null
+}
+
+/**
+ * 曲の一覧を読み込む
+ *
+ * @param src 曲の一覧（マニフェスト）のパス
+ */
+export const useTracks = (
+  src: string = MUSIC_CONFIG.manifestSrc,
+): UseTracksResult => {
+  const [tracks, setTracks] = useState<Track[]>([DEFAULT_TRACK])
+  const [isLoading, setIsLoading] = useState<boolean>(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let isCancelled = false
+
+    const load = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(src)
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`)
+        }
+        const result = parseTrackManifest(await response.json())
+        if (isCancelled) {
+          return
+        }
+        if (!result.success) {
+          console.error(`useTracks: 曲の一覧が不正です (${src})`, result.error)
+          setTracks([DEFAULT_TRACK])
+          setError(result.error)
+          return
+        }
+        console.log(
+          'useTracks: 曲の一覧の読み込み完了 -',
+          result.value.tracks.length,
+          '曲',
+        )
+        setTracks(result.value.tracks)
+      } catch (error) {
+        if (isCancelled) {
+          return
+        }
+        console.error('useTracks: 曲の一覧の取得に失敗', error)
+        setTracks([DEFAULT_TRACK])
+        setError('曲の一覧の読み込みに失敗しました')
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false)
+        }
+      }
+    }
+
+    load()
+
+    return () => {
+      isCancelled = true
+    }
+  }, [src])
+
+  return { tracks, isLoading, error }
+}
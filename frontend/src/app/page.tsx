@@ -13,43 +13,11 @@
  *
  * @architecture
  * - サーバーコンポーネントとして実装
- * - BGM機能は専用のクライアントコンポーネントに分離
+ * - 画面本体は共有シーンと共通の TwinkleScene を使用
  */
 
-import Image from 'next/image'
-import { Avatars } from './avatars'
-import { Music } from './music'
-import styles from './style.module.css'
-import { InfiniteScroll } from '@/components/infinite-scroll'
+import { TwinkleScene } from './twinkle-scene'
 
 export default function TwinklePage() {
-  return (
-    <div className={styles.container}>
-      <div className={styles.screen}>
-        <Music />
-        <Avatars />
-        <div className={styles.twinkleContainer}>
-          <Twinkle />
-        </div>
-      </div>
-    </div>
-  )
-}
-
-const Twinkle = () => {
-  return (
-    <div className={styles.twinkle}>
-      <div className={styles.city}>
-        <InfiniteScroll>
-          <Image
-            src="/images/twinkle-city-short-transparent.png"
-            alt="twinkle-city"
-            width={1639}
-            height={1000}
-            className={styles.cityImage}
-          />
-        </InfiniteScroll>
-      </div>
-    </div>
-  )
+  return <TwinkleScene />
 }
@@ -2,9 +2,11 @@
 
 import { MantineProvider } from '@mantine/core'
 import '@mantine/core/styles.css'
+import '@mantine/dropzone/styles.css'
+import { AuthProvider } from './auth-provider'
 /**
  * @description Mantineプロバイダーコンポーネント
- * アプリケーション全体にMantineのスタイリングを提供します
+ * アプリケーション全体にMantineのスタイリングとログイン状態を提供します
  *
  * @param {Object} props - コンポーネントのプロパティ
  * @param {React.ReactNode} props.children - 子要素
@@ -15,5 +17,9 @@ export const Providers = ({
 }: {
   children: React.ReactNode
 }): React.ReactNode => {
-  return <MantineProvider>{children}</MantineProvider>
+  return (
+    <MantineProvider>
+      <AuthProvider>{children}</AuthProvider>
+    </MantineProvider>
+  )
 }
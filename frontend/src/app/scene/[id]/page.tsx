@@ -0,0 +1,18 @@
+/**
+ * 共有シーンページ（サーバーコンポーネント）
+ *
+ * @description
+ * - 共有リンク（/scene/[id]）から保存されたアバターでトゥインクルナイトを表示する
+ * - シーンの取得はクライアントコンポーネントで行う
+ */
+
+import { SharedScene } from './shared-scene'
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+export default async function ScenePage({ params }: Props) {
+  const { id } = await params
+  return <SharedScene sceneId={id} />
+}
@@ -0,0 +1,75 @@
+/**
+ * 共有シーンの読み込み
+ *
+ * @description
+ * - Firestoreからシーンを取得し、保存されたアバターで TwinkleScene を表示する
+ * - 読み込み中はローダー、見つからない場合はトップページへの案内を表示する
+ */
+'use client'
+
+import { Loader } from '@mantine/core'
+import { useEffect, useState } from 'react'
+import styles from './style.module.css'
+import { TwinkleScene } from '@/app/twinkle-scene'
+import { BasicButton } from '@/components/buttons/basic-button'
+import { fetchScene } from '@/infrastructure/firestore/SceneOperations'
+import type { Scene } from '@/infrastructure/firestore/types'
+
+/** 読み込み状態 */
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'loaded'; scene: Scene }
+  | { status: 'error'; message: string }
+
+type Props = {
+  /** シーンID */
+  sceneId: string
+}
+
+export const SharedScene = ({ sceneId }: Props): React.ReactNode => {
+  const [state, setState] = useState<LoadState>({ status: 'loading' })
+
+  useEffect(() => {
+    let isCanceled = false
+    setState({ status: 'loading' })
+
+    fetchScene(sceneId)
+      .then((scene) => {
+        if (isCanceled) return
+        setState(
+          scene
+            ? { status: 'loaded', scene }
+            : { status: 'error', message: 'シーンが見つかりませんでした' },
+        )
+      })
+      .catch((error: Error) => {
+        if (isCanceled) return
+        setState({ status: 'error', message: error.message })
+      })
+
+    return () => {
+      isCanceled = true
+    }
+  }, [sceneId])
+
+  if (state.status === 'loaded') {
+    return (
+      <TwinkleScene initialAvatars={state.scene.avatars} sceneId={sceneId} />
+    )
+  }
+
+  return (
+    <div className={styles.container}>
+      {state.status === 'loading' ? (
+        <Loader color="yellow" />
+      ) : (
+        <>
+          <p className={styles.message}>{state.message}</p>
+          <BasicButton href="/" size="sm">
+            トップへ戻る
+          </BasicButton>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+/**
+ * シーン共有ボタン
+ *
+ * @description
+ * - 表示中のアバターをシーンとして保存し、/scene/[id] のリンクをクリップボードにコピーする
+ * - 同じアバターのまま何度押しても同じシーンのリンクを返す
+ * - 共有されたシーンを表示している場合は、そのシーンのリンクを返す
+ *   （シーンには作成者本人のアバターしか保存できないため）
+ */
+'use client'
+
+import { useRef, useState } from 'react'
+import type { Avatar } from '../avatars/types'
+import type { AvatarProcessSettings } from '../avatar-uploader/pipeline'
+import { BasicButton } from '@/components/buttons/basic-button'
+import { createScene } from '@/infrastructure/firestore/SceneOperations'
+
+/** ボタンの表示状態 */
+type ShareStatus = 'idle' | 'copied' | 'error'
+
+/** 状態表示を元に戻すまでの時間（ms） */
+const STATUS_RESET_DELAY = 2000
+
+/** 状態ごとのボタンのラベル */
+const STATUS_LABELS: Record<ShareStatus, string> = {
+  idle: 'リンクを共有',
+  copied: 'コピーしました',
+  error: '共有に失敗しました',
+}
+
+type Props = {
+  /** 共有するアバター */
+  avatars: Avatar[]
+  /** アバターを加工したときの設定 */
+  settings: AvatarProcessSettings | null
+  /** 表示中の共有シーンのID（共有シーンのアバターを表示していない場合は省略） */
+  sceneId?: string
+}
+
+export const ShareButton = ({
+  avatars,
+  settings,
+  sceneId: sharedSceneId,
+}: Props): React.ReactNode => {
+  const [status, setStatus] = useState<ShareStatus>('idle')
+  const [isSaving, setIsSaving] = useState<boolean>(false)
+  // 同じアバターで重複してシーンを作らないよう、最後に保存したシーンを覚えておく
+  const savedSceneRef = useRef<{ avatars: Avatar[]; id: string } | null>(null)
+
+  // ブラウザ内に保存した画像（blob:）は他の人から見られないため共有できない
+  const isShareable = avatars.every((avatar) => !avatar.url.startsWith('blob:'))
+
+  const showStatus = (nextStatus: ShareStatus) => {
+    setStatus(nextStatus)
+    setTimeout(() => setStatus('idle'), STATUS_RESET_DELAY)
+  }
+
+  const handleShare = async () => {
+    setIsSaving(true)
+    try {
+      let sceneId = sharedSceneId ?? savedSceneRef.current?.id
+      if (
+        !sharedSceneId &&
+        (!sceneId || savedSceneRef.current?.avatars !== avatars)
+      ) {
+        sceneId = await createScene({
+          avatars: avatars.map(
+            ({ id, url, groundAnchor, choreography }, index) => ({
+              id,
+              url,
+              groundAnchor,
+              choreography,
+              position: index,
+            }),
+          ),
+          settings,
+        })
+        savedSceneRef.current = { avatars, id: sceneId }
+      }
+
+      const url = `${window.location.origin}/scene/${sceneId}`
+      try {
+        await navigator.clipboard.writeText(url)
+        showStatus('copied')
+      } catch {
+        // クリップボードが使えない環境では手動でコピーしてもらう
+        window.prompt('このリンクを共有してね', url)
+      }
+    } catch (error) {
+      console.error('ShareButton: 共有エラー', error)
+      showStatus('error')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <BasicButton
+      onClick={handleShare}
+      size="sm"
+      loading={isSaving}
+      disabled={!isShareable}
+    >
+      {STATUS_LABELS[status]}
+    </BasicButton>
+  )
+}
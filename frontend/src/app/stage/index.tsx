@@ -0,0 +1,154 @@
+/**
+ * トゥインクルナイトの舞台
+ *
+ * @description
+ * - 夜空・街・アバターをCanvasのシーンとして描画する（曲ごとに背景の層を差し替えられる）
+ * - 表示するアバター（共有シーン・マイアバター・既定のアバター）を管理する
+ * - アバターごとに選んだ動きのプリセットで動かし、BPMが分かる場合は拍に合わせる
+ * - 背景・アバターの動きは実時間で動かし続ける（再生の同意前・一時停止中も止まらない）
+ * - 再生中はBGMからビートを検出し、アバターを跳ねさせ、星や街の明かりを光らせる
+ *   （BPMが設定されていない場合は検出したビートから推定したBPMを使う）
+ * - 歌っている歌い手に割り当てたアバターを光らせる
+ * - アバターの変更・共有・画像保存のボタンを表示する
+ */
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import styles from './style.module.css'
+import { AvatarUploader } from '../avatar-uploader'
+import type { AvatarProcessSettings } from '../avatar-uploader/pipeline'
+import { DEFAULT_AVATARS, type Avatar } from '../avatars/types'
+import { useMyAvatars } from '../avatars/useMyAvatars'
+import { SINGERS } from '../lyrics/config'
+import { ShareButton } from '../share-button'
+import { BasicButton } from '@/components/buttons/basic-button'
+import { usePlayback } from '@/components/playback-provider/usePlayback'
+import { SceneRenderer } from '@/components/scene-renderer'
+import {
+  CHOREOGRAPHY_PRESETS,
+  PARALLAX_LAYERS,
+} from '@/components/scene-renderer/config'
+import {
+  createCityLightsEffect,
+  createStarTwinkleEffect,
+  findCityLayer,
+} from '@/components/scene-renderer/effects'
+import type {
+  ParallaxLayer,
+  SceneRendererHandle,
+} from '@/components/scene-renderer/types'
+import { useBeatDetector } from '@/lib/audio/useBeatDetector'
+
+type Props = {
+  /** 最初に表示するアバター（省略時はマイアバター、なければ既定のアバター） */
+  initialAvatars?: Avatar[]
+  /** 共有シーンのID（共有シーンを表示している場合のみ） */
+  sceneId?: string
+  /** 曲のID */
+  trackId: string
+  /** 曲のBPM（不明な場合はnull） */
+  bpm: number | null
+  /** 曲の背景のパララックスの層（nullの場合は既定の夜空と街） */
+  layers: ParallaxLayer[] | null
+  /** 再生中のBGMに接続したAnalyserNode */
+  analyserNode: AnalyserNode | null
+  /** 歌っている歌い手（全員・間奏の場合はnull） */
+  singer: string | null
+}
+
+export const Stage = ({
+  initialAvatars,
+  sceneId,
+  trackId,
+  bpm,
+  layers,
+  analyserNode,
+  singer,
+}: Props): React.ReactNode => {
+  const { state, getCurrentTime } = usePlayback()
+  const isPlaying = state === 'playing'
+  const { myAvatars, reload, remove } = useMyAvatars()
+  // 共有シーンのアバター（アップロードするとマイアバターの表示に切り替える）
+  const [sceneAvatars, setSceneAvatars] = useState<Avatar[] | null>(
+    initialAvatars ?? null,
+  )
+  const [settings, setSettings] = useState<AvatarProcessSettings | null>(null)
+  const rendererRef = useRef<SceneRendererHandle>(null)
+  // 街の明かりは曲の背景の街の層に合わせる（街の層がない背景では表示しない）
+  const effects = useMemo(() => {
+    const cityLayer = findCityLayer(layers ?? PARALLAX_LAYERS)
+    return cityLayer
+      ? [createStarTwinkleEffect(), createCityLightsEffect(cityLayer)]
+      : [createStarTwinkleEffect()]
+  }, [layers])
+  const { bpm: detectedBpm } = useBeatDetector(analyserNode, {
+    isActive: isPlaying,
+    getTime: getCurrentTime,
+    trackId,
+    onBeat: (beat) => rendererRef.current?.triggerBeat(beat.strength),
+  })
+
+  const avatars =
+    sceneAvatars ?? (myAvatars.length > 0 ? myAvatars : DEFAULT_AVATARS)
+  const highlightedIndex = singer
+    ? (SINGERS[singer]?.avatarIndex ?? null)
+    : null
+  const sprites = useMemo(
+    () =>
+      avatars.map((avatar, index) => ({
+        ...avatar,
+        choreography: CHOREOGRAPHY_PRESETS[avatar.choreography].choreography,
+        highlighted: index === highlightedIndex,
+      })),
+    [avatars, highlightedIndex],
+  )
+
+  const handleUploaded = async (nextSettings: AvatarProcessSettings) => {
+    setSettings(nextSettings)
+    await reload()
+    setSceneAvatars(null)
+  }
+
+  /**
+   * 現在のシーンをPNGとしてダウンロードする
+   */
+  const handleCapture = async () => {
+    const blob = await rendererRef.current?.captureFrame()
+    if (!blob) {
+      return
+    }
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'twinkle-night.png'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className={styles.stage}>
+      <SceneRenderer
+        ref={rendererRef}
+        avatars={sprites}
+        layers={layers ?? undefined}
+        bpm={bpm ?? detectedBpm}
+        effects={effects}
+      />
+      <div className={styles.actions}>
+        <BasicButton onClick={handleCapture} size="sm">
+          画像を保存
+        </BasicButton>
+        <ShareButton
+          avatars={avatars}
+          settings={settings}
+          sceneId={sceneAvatars ? sceneId : undefined}
+        />
+        <AvatarUploader
+          myAvatars={myAvatars}
+          onRemoveAvatar={remove}
+          onUploaded={handleUploaded}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+/**
+ * 曲の選択
+ *
+ * @description
+ * - 曲の一覧から再生する曲を選ぶ（曲が2曲以上ある場合のみ表示する）
+ * - 選んでいる曲のアーティスト・クレジットを表示する
+ */
+'use client'
+
+import { Select } from '@mantine/core'
+import styles from './style.module.css'
+import type { Track } from '../music/types'
+
+type Props = {
+  /** 曲の一覧 */
+  tracks: Track[]
+  /** 選んでいる曲 */
+  track: Track
+  /** 曲を選んだ時のコールバック */
+  onChange: (trackId: string) => void
+}
+
+export const TrackSelector = ({
+  tracks,
+  track,
+  onChange,
+}: Props): React.ReactNode => {
+  if (tracks.length < 2) {
+    return null
+  }
+
+  return (
+    <div className={styles.trackSelector}>
+      <Select
+        data={tracks.map(({ id, title }) => ({ label: title, value: id }))}
+        value={track.id}
+        onChange={(value) => {
+          if (value && value !== track.id) {
+            onChange(value)
+          }
+        }}
+        allowDeselect={false}
+        size="xs"
+        aria-label="曲を選ぶ"
+      />
+      <p className={styles.credits}>
+        {track.artist}
+        {track.credits.map(({ role, name }) => (
+          <span key={`${role}:${name}`}>
+            {role}: {name}
+          </span>
+        ))}
+      </p>
+    </div>
+  )
+}
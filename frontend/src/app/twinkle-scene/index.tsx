@@ -0,0 +1,69 @@
+/**
+ * トゥインクルナイトの画面
+ *
+ * @description
+ * - 舞台（夜空・街・アバター）とBGM・歌詞をまとめて表示する
+ * - トップページと共有シーン（/scene/[id]）で共通して使用する
+ *
+ * @features
+ * - Canvasによる背景・街のスクロール・アバターのふわふわアニメーション
+ * - BGM自動再生（専用コンポーネントで実装）
+ * - 曲の一覧（public/tracks.json）から選んだ曲の音声・歌詞・背景・BPMで舞台を切り替える
+ * - BGMの再生時計（PlaybackProvider）を配り、歌詞・波形・ビートの検出を同じ時間で動かす
+ * - BGMの解析結果（AnalyserNode）を舞台に渡し、ビートに合わせて動かす
+ * - 歌詞のセクションが変わったら、歌っている歌い手のアバターを光らせる
+ */
+'use client'
+
+import { useState } from 'react'
+import styles from './style.module.css'
+import { PlaybackProvider } from '@/components/playback-provider'
+import type { Avatar } from '../avatars/types'
+import type { LyricSection } from '../lyrics/types'
+import { Music } from '../music'
+import { useTracks } from '../music/useTracks'
+import { Stage } from '../stage'
+
+type Props = {
+  /** 最初に表示するアバター（省略時はマイアバター、なければ既定のアバター） */
+  initialAvatars?: Avatar[]
+  /** 共有シーンのID（共有シーンを表示している場合のみ） */
+  sceneId?: string
+}
+
+export const TwinkleScene = ({
+  initialAvatars,
+  sceneId,
+}: Props): React.ReactNode => {
+  const [analyserNode, setAnalyserNode] = useState<AnalyserNode | null>(null)
+  const [section, setSection] = useState<LyricSection | null>(null)
+  const { tracks } = useTracks()
+  const [trackId, setTrackId] = useState<string | null>(null)
+  // 選んだ曲が一覧にない場合は先頭の曲を再生する
+  const track = tracks.find(({ id }) => id === trackId) ?? tracks[0]
+
+  return (
+    <PlaybackProvider>
+      <div className={styles.container}>
+        <div className={styles.screen}>
+          <Music
+            track={track}
+            tracks={tracks}
+            onTrackChange={setTrackId}
+            onAnalyserChange={setAnalyserNode}
+            onSectionChange={setSection}
+          />
+          <Stage
+            initialAvatars={initialAvatars}
+            sceneId={sceneId}
+            trackId={track.id}
+            bpm={track.bpm}
+            layers={track.layers}
+            analyserNode={analyserNode}
+            singer={section?.singer ?? null}
+          />
+        </div>
+      </div>
+    </PlaybackProvider>
+  )
+}
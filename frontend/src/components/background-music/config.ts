@@ -0,0 +1,17 @@
+/**
+ * BGMの音量の設定定数
+ */
+
+/**
+ * 音量の設定
+ */
+export const VOLUME_CONFIG = {
+  /** 音量・ミュートを保存するlocalStorageのキー */
+  storageKey: 'twinkle-night:volume',
+  /** 再生を始めた時に音量を上げる時間（秒） */
+  fadeInDuration: 0.8,
+  /** 一時停止する前に音量を下げる時間（秒） */
+  fadeOutDuration: 0.4,
+  /** スライダーで音量を変えた時に追従する速さ（時定数、秒） */
+  changeTimeConstant: 0.03,
+} as const
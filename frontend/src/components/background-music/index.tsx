@@ -10,7 +10,9 @@
  * @features
  * - 同意ボタンUI表示
  * - ユーザー操作による再生開始
- * - 音量調整
+ * - 再生・一時停止は再生時計（PlaybackProvider）から行い、audio要素はそのrefで描画する
+ * - 音量調整（スライダー・ミュート。設定はlocalStorageに保存し、次回も同じ音量で再生する）
+ * - 再生開始時のフェードイン・一時停止前のフェードアウト
  * - エラーハンドリング
  * - 音声ファイル読み込み状況の監視
  * - Web Audio API連携（波形表示用）
@@ -18,6 +20,9 @@
  * @ui_components
  * - 同意確認メッセージ「音を鳴らしてもいい？」
  * - 同意ボタン「いいよ！」
+ * - 曲の外部リンク（YouTubeの場合はYouTubeのアイコン）
+ * - ミュートボタンと音量スライダー
+ * - 波形表示の種類の切り替え（バー・波形・月・星空）
  * - 非表示のaudio要素
  * - 波形表示コンポーネント
  *
@@ -30,64 +35,185 @@
  *
  * @audio_integration
  * - HTMLAudioElementとWeb Audio APIの連携
- * - 音声解析用AnalyserNodeの提供
+ * - 音声解析用AnalyserNodeの提供（onAnalyserChangeで親コンポーネントにも渡す）
+ * - 音量はGainNodeで調整する（iOSはaudio.volumeの変更を無視するため）
+ * - GainNodeを接続するまではaudio要素をミュートし、接続後に無音からフェードインする
+ * - Web Audio APIが使えない場合のみaudio.volumeで調整する
  * - 波形表示コンポーネントとの連動
  */
 
 'use client'
 
-import { HiOutlineSpeakerWave, HiOutlineSpeakerXMark } from 'react-icons/hi2'
+import {
+  HiOutlineArrowTopRightOnSquare,
+  HiOutlineSpeakerWave,
+  HiOutlineSpeakerXMark,
+} from 'react-icons/hi2'
 import { SiYoutube } from 'react-icons/si'
-import { useEffect, useRef, useState } from 'react'
+import { SegmentedControl, Slider } from '@mantine/core'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import styles from './style.module.css'
+import { VOLUME_CONFIG } from './config'
+import { useVolumePreference } from './useVolumePreference'
 import { IconButton } from '../buttons/icon-button'
 import { WaveformVisualizer } from '../waveform-visualizer'
+import {
+  isVisualizerMode,
+  VISUALIZER_MODES,
+} from '../waveform-visualizer/config'
+import type { VisualizerMode } from '../waveform-visualizer/types'
+import { usePlayback } from '../playback-provider/usePlayback'
 import { useAudioAnalyser } from '../waveform-visualizer/useAudioAnalyser'
 
 type BackgroundMusicProps = {
   /** 音声ファイルのパス */
   src: string
-  /** 音量（0.0 - 1.0） */
+  /** 曲の外部リンク（MVなど、ない場合はnull） */
+  link?: { url: string; label: string } | null
+  /** 音量の初期値（0.0 - 1.0、保存された設定がある場合はそちらを使う） */
   volume?: number
   /** ループ再生するかどうか（デフォルト: false） */
   loop?: boolean
-  /** 再生するかどうか */
-  isPlaying?: boolean
+  /** AnalyserNodeの作成・破棄時のコールバック（ビート検出などに使用） */
+  onAnalyserChange?: (analyserNode: AnalyserNode | null) => void
+}
+
+/**
+ * YouTubeのURLかどうか
+ */
+const isYouTubeUrl = (url: string): boolean => {
+  try {
+    const { hostname } = new URL(url)
+    return /(^|\.)(youtube\.com|youtu\.be)$/.test(hostname)
+  } catch {
+    return false
+  }
 }
 
 export function BackgroundMusic({
   src,
+  link = null,
   volume = 0.5,
   loop = false,
-  isPlaying = false,
+  onAnalyserChange,
 }: BackgroundMusicProps) {
-  const audioRef = useRef<HTMLAudioElement>(null)
-  const [isMuted, setIsMuted] = useState<boolean>(false)
+  const { audioRef, state, registerFader } = usePlayback()
+  const isPlaying = state === 'playing'
+  const {
+    volume: preferredVolume,
+    isMuted,
+    setVolume,
+    toggleMute,
+  } = useVolumePreference(volume)
+  const outputVolume = isMuted ? 0 : preferredVolume
+  const [visualizerMode, setVisualizerMode] = useState<VisualizerMode>('bars')
+  const { placement } = VISUALIZER_MODES[visualizerMode]
+  /** フェードインの目標の音量（音量を変えてもフェードし直さないようrefで持つ） */
+  const outputVolumeRef = useRef<number>(outputVolume)
 
   // Web Audio API統合
-  const { analyserNode, isInitialized, initializeAnalyser } = useAudioAnalyser()
+  const {
+    analyserNode,
+    gainNode,
+    isInitialized,
+    error: analyserError,
+    initializeAnalyser,
+  } = useAudioAnalyser()
 
   /**
-   * コンポーネントマウント時の処理
-   * 音量設定のみ行う（再生は同意ボタンで行う）
+   * 音量を反映する
+   * GainNodeがあればGainNodeで、なければaudio要素の音量で調整する（両方で掛け合わせない）
+   * GainNodeを接続するまでは、再生を始めても設定の音量で鳴らないようミュートしておく
+   * （Web Audio APIが使えなかった場合はaudio要素の音量で鳴らす）
    */
   useEffect(() => {
-    if (audioRef.current) {
-      // 音量を設定
-      audioRef.current.volume = volume
-      console.log('BackgroundMusic: 音量設定完了 -', volume)
+    outputVolumeRef.current = outputVolume
+    const audio = audioRef.current
+    if (!audio) {
+      return
+    }
+    if (!gainNode) {
+      audio.muted = analyserError === null
+      audio.volume = outputVolume
+      return
     }
-  }, [volume])
+    audio.muted = false
+    audio.volume = 1
+    const now = gainNode.context.currentTime
+    gainNode.gain.cancelScheduledValues(now)
+    gainNode.gain.setTargetAtTime(
+      outputVolume,
+      now,
+      VOLUME_CONFIG.changeTimeConstant,
+    )
+  }, [audioRef, gainNode, analyserError, outputVolume])
+
+  /**
+   * 設定の音量までフェードインする
+   *
+   * @param from フェードを始める音量（省略時は今の音量から）
+   */
+  const fadeIn = useCallback(
+    (from?: number) => {
+      if (!gainNode) {
+        return
+      }
+      const now = gainNode.context.currentTime
+      gainNode.gain.cancelScheduledValues(now)
+      gainNode.gain.setValueAtTime(from ?? gainNode.gain.value, now)
+      gainNode.gain.linearRampToValueAtTime(
+        outputVolumeRef.current,
+        now + VOLUME_CONFIG.fadeInDuration,
+      )
+    },
+    [gainNode],
+  )
 
+  /**
+   * 再生が始まったら無音からフェードインする
+   * メディアキーなど再生時計を通さない再生や、Web Audio APIの初期化直後も含む
+   */
   useEffect(() => {
     if (isPlaying) {
-      audioRef.current?.play()
-      // Web Audio APIの初期化
-      if (audioRef.current && !isInitialized) {
-        initializeAnalyser(audioRef.current)
-      }
+      fadeIn(0)
+    }
+  }, [isPlaying, fadeIn])
+
+  /**
+   * 再生時計にフェードを登録する（一時停止はフェードアウトしてから行われる）
+   */
+  useEffect(() => {
+    if (!gainNode) {
+      return
+    }
+    return registerFader({
+      fadeIn: () => fadeIn(),
+      fadeOut: () =>
+        new Promise((resolve) => {
+          const now = gainNode.context.currentTime
+          gainNode.gain.cancelScheduledValues(now)
+          gainNode.gain.setValueAtTime(gainNode.gain.value, now)
+          gainNode.gain.linearRampToValueAtTime(
+            0,
+            now + VOLUME_CONFIG.fadeOutDuration,
+          )
+          setTimeout(resolve, VOLUME_CONFIG.fadeOutDuration * 1000)
+        }),
+    })
+  }, [gainNode, fadeIn, registerFader])
+
+  /**
+   * 再生が始まったらWeb Audio APIを初期化する（ユーザー操作の後に行う）
+   */
+  useEffect(() => {
+    if (isPlaying && audioRef.current && !isInitialized) {
+      initializeAnalyser(audioRef.current)
     }
-  }, [isPlaying, isInitialized, initializeAnalyser])
+  }, [audioRef, isPlaying, isInitialized, initializeAnalyser])
+
+  useEffect(() => {
+    onAnalyserChange?.(analyserNode)
+  }, [analyserNode, onAnalyserChange])
 
   /**
    * オーディオエラーハンドリング
@@ -104,17 +230,6 @@ export function BackgroundMusic({
     })
   }
 
-  const toggleMute = () => {
-    console.log('toggleMute', isMuted, audioRef.current?.volume)
-    if (isMuted) {
-      audioRef.current!.volume = volume
-      setIsMuted(false)
-    } else {
-      audioRef.current!.volume = 0
-      setIsMuted(true)
-    }
-  }
-
   /**
    * オーディオ読み込み完了時の処理
    */
@@ -125,13 +240,35 @@ export function BackgroundMusic({
   return (
     <>
       <div className={styles.controller}>
-        <a
-          href="https://www.youtube.com/watch?v=uUvthLpSHrQ"
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <SiYoutube size={32} color="white" />
-        </a>
+        <SegmentedControl
+          size="xs"
+          data={Object.entries(VISUALIZER_MODES).map(([value, { label }]) => ({
+            label,
+            value,
+          }))}
+          value={visualizerMode}
+          onChange={(value) => {
+            if (isVisualizerMode(value)) {
+              setVisualizerMode(value)
+            }
+          }}
+          aria-label="波形の表示"
+        />
+        {link && (
+          <a
+            href={link.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            aria-label={link.label}
+            title={link.label}
+          >
+            {isYouTubeUrl(link.url) ? (
+              <SiYoutube size={32} color="white" />
+            ) : (
+              <HiOutlineArrowTopRightOnSquare size={32} color="white" />
+            )}
+          </a>
+        )}
         <div className={styles.mute}>
           {isMuted ? (
             <IconButton
@@ -149,6 +286,16 @@ export function BackgroundMusic({
             />
           )}
         </div>
+        <Slider
+          className={styles.volume}
+          value={isMuted ? 0 : preferredVolume}
+          onChange={setVolume}
+          min={0}
+          max={1}
+          step={0.01}
+          label={(value) => `${Math.round(value * 100)}%`}
+          aria-label="音量"
+        />
       </div>
       <audio
         ref={audioRef}
@@ -160,11 +307,18 @@ export function BackgroundMusic({
         onLoadedData={handleAudioLoaded}
         style={{ display: 'none' }}
       />
-      <div className={styles.waveformWrapper}>
+      {/* 夜空に描く表示は画面全体、それ以外は画面下部に重ねる（場所が変わったらCanvasを作り直す） */}
+      <div
+        key={placement}
+        className={
+          placement === 'sky' ? styles.skyWrapper : styles.waveformWrapper
+        }
+      >
         <WaveformVisualizer
           analyserNode={analyserNode}
           isPlaying={isPlaying}
-          height={500}
+          height={placement === 'sky' ? undefined : 500}
+          mode={visualizerMode}
         />
       </div>
     </>
@@ -0,0 +1,99 @@
+/**
+ * 音量設定フック
+ *
+ * @description
+ * - BGMの音量とミュートの状態を管理する
+ * - 設定はlocalStorageに保存し、次に訪れた時も同じ音量で再生する
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { VOLUME_CONFIG } from './config'
+
+/** 保存する音量設定 */
+type VolumePreference = {
+  /** 音量（0〜1。ミュート中はミュートを解除した時に戻す音量） */
+  volume: number
+  /** ミュートしているか */
+  isMuted: boolean
+}
+
+type VolumePreferenceHook = VolumePreference & {
+  /**
+   * 音量を変更する
+   * 0より大きい音量にするとミュートを解除し、0にするとミュートする（それまでの音量は残す）
+   */
+  setVolume: (volume: number) => void
+  /** ミュートを切り替える */
+  toggleMute: () => void
+}
+
+/**
+ * localStorageから音量設定を読み込む
+ */
+const loadPreference = (): VolumePreference | null => {
+  try {
+    const saved = localStorage.getItem(VOLUME_CONFIG.storageKey)
+    if (!saved) {
+      return null
+    }
+    const { volume, isMuted } = JSON.parse(saved)
+    if (typeof volume !== 'number' || typeof isMuted !== 'boolean') {
+      return null
+    }
+    return { volume: Math.min(Math.max(volume, 0), 1), isMuted }
+  } catch (error) {
+    console.warn('useVolumePreference: 音量設定の読み込みに失敗', error)
+    return null
+  }
+}
+
+/**
+ * BGMの音量設定を取得する
+ *
+ * @param defaultVolume 保存された設定がない場合の音量（0〜1）
+ */
+export const useVolumePreference = (
+  defaultVolume: number,
+): VolumePreferenceHook => {
+  const [preference, setPreference] = useState<VolumePreference>({
+    volume: defaultVolume,
+    isMuted: false,
+  })
+  /** 保存された設定を読み込んだか（読み込む前に既定値で上書きしない） */
+  const [isLoaded, setIsLoaded] = useState<boolean>(false)
+
+  useEffect(() => {
+    const saved = loadPreference()
+    if (saved) {
+      setPreference(saved)
+    }
+    setIsLoaded(true)
+  }, [])
+
+  useEffect(() => {
+    if (!isLoaded) {
+      return
+    }
+    try {
+      localStorage.setItem(VOLUME_CONFIG.storageKey, JSON.stringify(preference))
+    } catch (error) {
+      console.warn('useVolumePreference: 音量設定の保存に失敗', error)
+    }
+  }, [isLoaded, preference])
+
+  const setVolume = useCallback((volume: number) => {
+    setPreference((prev) =>
+      volume === 0 ? { ...prev, isMuted: true } : { volume, isMuted: false },
+    )
+  }, [])
+
+  const toggleMute = useCallback(() => {
+    setPreference((prev) => ({
+      // 音量0のまま保存された設定は、ミュートを解除しても鳴らないため既定の音量に戻す
+      volume: prev.isMuted && prev.volume === 0 ? defaultVolume : prev.volume,
+      isMuted: !prev.isMuted,
+    }))
+  }, [defaultVolume])
+
+  return { ...preference, setVolume, toggleMute }
+}
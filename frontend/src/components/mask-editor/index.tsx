@@ -0,0 +1,190 @@
+/**
+ * マスク編集コンポーネント
+ *
+ * @description
+ * - 背景除去の結果（アルファマスク）をブラシで手動修正する
+ * - 「消す」モードで背景として透明化、「戻す」モードで元の画像を復元
+ * - 透明部分は市松模様で表示する
+ *
+ * @props
+ * - source: 元画像（PNGに正規化済みのもの）
+ * - mask: 編集対象のマスク（元画像と同じサイズ）
+ * - onChange: ストローク終了ごとに編集後のマスクを通知
+ */
+
+'use client'
+
+import { SegmentedControl, Slider } from '@mantine/core'
+import { useEffect, useRef, useState } from 'react'
+import styles from './style.module.css'
+import { readImageData } from '@/lib/image/canvas'
+import { BACKGROUND_REMOVAL_CONFIG } from '@/lib/image/config'
+import { applyMaskToImageData, cloneMask, paintMask } from '@/lib/image/mask'
+import type { AlphaMask } from '@/lib/image/types'
+
+type BrushMode = 'erase' | 'restore'
+
+type Props = {
+  source: Blob
+  mask: AlphaMask
+  onChange: (mask: AlphaMask) => void
+}
+
+export const MaskEditor = ({
+  source,
+  mask,
+  onChange,
+}: Props): React.ReactNode => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const sourceDataRef = useRef<ImageData | null>(null)
+  const previewDataRef = useRef<ImageData | null>(null)
+  const maskRef = useRef<AlphaMask>(cloneMask(mask))
+  const isDrawingRef = useRef<boolean>(false)
+
+  const [mode, setMode] = useState<BrushMode>('erase')
+  const [brushSize, setBrushSize] = useState<number>(
+    BACKGROUND_REMOVAL_CONFIG.defaultBrushSize,
+  )
+
+  /**
+   * 元画像を読み込んでマスク適用済みのプレビューを描画
+   */
+  useEffect(() => {
+    let isCancelled = false
+    maskRef.current = cloneMask(mask)
+
+    readImageData(source)
+      .then((sourceData) => {
+        const canvas = canvasRef.current
+        const context = canvas?.getContext('2d')
+        if (isCancelled || !canvas || !context) {
+          return
+        }
+        canvas.width = sourceData.width
+        canvas.height = sourceData.height
+
+        const preview = new ImageData(
+          new Uint8ClampedArray(sourceData.data),
+          sourceData.width,
+          sourceData.height,
+        )
+        applyMaskToImageData(preview, sourceData, maskRef.current)
+        context.putImageData(preview, 0, 0)
+
+        sourceDataRef.current = sourceData
+        previewDataRef.current = preview
+      })
+      .catch((error) => {
+        console.error('MaskEditor: 画像の読み込みエラー', error)
+      })
+
+    return () => {
+      isCancelled = true
+    }
+  }, [source, mask])
+
+  /**
+   * ポインター位置を画像の座標に変換
+   */
+  const toImagePoint = (
+    event: React.PointerEvent<HTMLCanvasElement>,
+  ): { x: number; y: number; scale: number } => {
+    const canvas = event.currentTarget
+    const rect = canvas.getBoundingClientRect()
+    const scale = canvas.width / rect.width
+    return {
+      x: (event.clientX - rect.left) * scale,
+      y: (event.clientY - rect.top) * scale,
+      scale,
+    }
+  }
+
+  /**
+   * ポインター位置にブラシを適用し、変更範囲のみ再描画
+   */
+  const paint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext('2d')
+    const sourceData = sourceDataRef.current
+    const preview = previewDataRef.current
+    if (!context || !sourceData || !preview) {
+      return
+    }
+
+    const { x, y, scale } = toImagePoint(event)
+    const area = paintMask(
+      maskRef.current,
+      x,
+      y,
+      (brushSize / 2) * scale,
+      mode === 'erase' ? 0 : 255,
+    )
+    if (area.width === 0 || area.height === 0) {
+      return
+    }
+
+    for (let row = area.y; row < area.y + area.height; row++) {
+      for (let col = area.x; col < area.x + area.width; col++) {
+        const index = row * preview.width + col
+        preview.data[index * 4 + 3] = Math.min(
+          sourceData.data[index * 4 + 3],
+          maskRef.current.data[index],
+        )
+      }
+    }
+    context.putImageData(preview, 0, 0, area.x, area.y, area.width, area.height)
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    isDrawingRef.current = true
+    event.currentTarget.setPointerCapture(event.pointerId)
+    paint(event)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isDrawingRef.current) {
+      paint(event)
+    }
+  }
+
+  const handlePointerUp = () => {
+    if (!isDrawingRef.current) {
+      return
+    }
+    isDrawingRef.current = false
+    onChange(cloneMask(maskRef.current))
+  }
+
+  return (
+    <div className={styles.maskEditor}>
+      <div className={styles.toolbar}>
+        <SegmentedControl
+          data={[
+            { label: '消す', value: 'erase' },
+            { label: '戻す', value: 'restore' },
+          ]}
+          value={mode}
+          onChange={(value) => setMode(value as BrushMode)}
+          size="xs"
+        />
+        <div className={styles.brushSize}>
+          <span>ブラシ</span>
+          <Slider
+            value={brushSize}
+            onChange={setBrushSize}
+            min={4}
+            max={96}
+            label={(value) => `${value}px`}
+          />
+        </div>
+      </div>
+      <canvas
+        ref={canvasRef}
+        className={styles.canvas}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+    </div>
+  )
+}
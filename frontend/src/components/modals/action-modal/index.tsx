@@ -13,6 +13,7 @@ type Props = {
   isOpen: boolean
   onClose: () => void
   onSave?: () => void
+  isSaving?: boolean
   title: string
   size?: '95%' | 'auto'
 }
@@ -22,6 +23,7 @@ export const ActionModal = ({
   isOpen,
   onClose,
   onSave,
+  isSaving = false,
   title,
   size = '95%',
 }: Props): React.ReactNode => {
@@ -51,7 +53,7 @@ export const ActionModal = ({
         <p className={styles.title}>{title}</p>
         {onSave && (
           <div className={styles.action}>
-            <BasicButton onClick={onSave}>
+            <BasicButton onClick={onSave} loading={isSaving}>
               <span className={styles.save}>適用</span>
             </BasicButton>
           </div>
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { createPlaybackClock, type PlaybackClockSource } from './clock'
+import { PLAYBACK_CLOCK_CONFIG } from './config'
+
+/** 再生中のaudio要素 */
+const playing = (currentTimeMs: number): PlaybackClockSource => ({
+  currentTime: currentTimeMs / 1000,
+  paused: false,
+  playbackRate: 1,
+})
+
+describe('createPlaybackClock', () => {
+  it('再生位置が更新されないフレームは経過時間で補い、上限で止める', () => {
+    const clock = createPlaybackClock()
+    expect(clock.read(playing(1000), 0)).toBe(1000)
+    expect(clock.read(playing(1000), 16)).toBe(1016)
+    expect(clock.read(playing(1000), 500)).toBe(
+      1000 + PLAYBACK_CLOCK_CONFIG.maxExtrapolationMs,
+    )
+  })
+
+  it('再生中は、補った値より前の再生位置が届いても戻らない', () => {
+    const clock = createPlaybackClock()
+    // 60fpsのフレームに対し、audio要素の再生位置は遅れて・飛び飛びに更新される
+    const updates = [
+      { at: 0, mediaMs: 0 },
+      { at: 150, mediaMs: 40 },
+      { at: 200, mediaMs: 190 },
+      { at: 450, mediaMs: 300 },
+      { at: 460, mediaMs: 460 },
+    ]
+    let previousMs = -Infinity
+    for (let now = 0; now <= 600; now += 16) {
+      const mediaMs = updates.filter(({ at }) => at <= now).at(-1)!.mediaMs
+      const timeMs = clock.read(playing(mediaMs), now)
+      expect(timeMs).toBeGreaterThanOrEqual(previousMs)
+      previousMs = timeMs
+    }
+  })
+
+  it('読み込み待ちの間は補わず、戻りもしない', () => {
+    const clock = createPlaybackClock()
+    clock.read(playing(1000), 0)
+    expect(clock.read(playing(1000), 80)).toBe(1080)
+    clock.setWaiting(true)
+    expect(clock.read(playing(1000), 200)).toBe(1080)
+    expect(clock.read(playing(1050), 300)).toBe(1080)
+    clock.setWaiting(false)
+    expect(clock.read(playing(1100), 400)).toBe(1100)
+  })
+
+  it('リセットするとシーク先まで戻れる', () => {
+    const clock = createPlaybackClock()
+    clock.read(playing(5000), 0)
+    clock.read(playing(5000), 50)
+    clock.reset()
+    expect(clock.read(playing(1000), 60)).toBe(1000)
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * 再生位置の時計
+ *
+ * @description
+ * - audio要素の再生位置が更新されないフレームは経過時間で補い、滑らかに進める
+ *   （読み込み待ちの間・停止中は補わず、補う量にも上限を設ける）
+ * - 補った値より前の再生位置が後から届いても、時計は戻さない
+ *   （戻ると通過済みのキューをもう一度通知してしまう）
+ * - シークした時は reset で前の値を忘れ、シーク先から進める
+ */
+
+import { PLAYBACK_CLOCK_CONFIG } from './config'
+
+/** 時計が読むaudio要素の状態 */
+export type PlaybackClockSource = Pick<
+  HTMLMediaElement,
+  'currentTime' | 'paused' | 'playbackRate'
+>
+
+/** 再生位置の時計 */
+export type PlaybackClock = {
+  /** 現在の再生位置（ミリ秒）を読む */
+  read: (source: PlaybackClockSource, now: number) => number
+  /** 読み込み待ちかどうかを設定する（待っている間は経過時間で補わない） */
+  setWaiting: (isWaiting: boolean) => void
+  /** シークした時に呼び、前の値より戻ることを許可する */
+  reset: () => void
+}
+
+/**
+ * 再生位置の時計を作成する
+ */
+export const createPlaybackClock = (): PlaybackClock => {
+  /** 最後に変わったaudio要素の再生位置と、その時刻 */
+  let mediaMs = 0
+  let updatedAt = 0
+  let isWaiting = false
+  /** 前回返した再生位置（リセット後はnull） */
+  let lastMs: number | null = null
+
+  return {
+    read: (source, now) => {
+      const currentMs = source.currentTime * 1000
+      if (currentMs !== mediaMs) {
+        mediaMs = currentMs
+        updatedAt = now
+      }
+      const elapsed =
+        source.paused || isWaiting
+          ? 0
+          : Math.min(
+              (now - updatedAt) * source.playbackRate,
+              PLAYBACK_CLOCK_CONFIG.maxExtrapolationMs,
+            )
+      const timeMs = Math.max(mediaMs + elapsed, lastMs ?? -Infinity)
+      lastMs = timeMs
+      return timeMs
+    },
+    setWaiting: (value) => {
+      isWaiting = value
+    },
+    reset: () => {
+      lastMs = null
+    },
+  }
+}
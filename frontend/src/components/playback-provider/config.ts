@@ -0,0 +1,16 @@
+/**
+ * 再生時計の設定定数
+ */
+
+/**
+ * 再生時計の設定
+ */
+export const PLAYBACK_CLOCK_CONFIG = {
+  /**
+   * audio要素の再生位置が更新されない間、経過時間から補う上限（ミリ秒）
+   * 読み込み待ちで止まっているのに時計だけ進むことを防ぐ
+   */
+  maxExtrapolationMs: 100,
+  /** 1フレームでこれ以上進んだ場合はシークとみなし、キューを通知しない（ミリ秒） */
+  seekThresholdMs: 250,
+} as const
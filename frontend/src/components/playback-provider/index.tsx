@@ -0,0 +1,290 @@
+/**
+ * 再生時計プロバイダー
+ *
+ * @description
+ * - 曲のaudio要素を1つの時計として、再生状態・再生位置・長さを配る
+ * - 歌詞・アバターの動き・波形・エフェクトはこの時計だけを見て動く
+ * - 再生・一時停止・シーク・最初から再生の操作を提供する
+ * - フェードが登録されている場合は、再生時に音量を上げ、音量を下げてから一時停止する
+ *
+ * @clock
+ * - 再生中はrequestAnimationFrameで毎フレーム再生位置を通知する
+ * - audio要素の再生位置が更新されないフレームは経過時間で補い、滑らかに進める
+ *   （読み込み待ちの間は補わず、補う量にも上限を設ける。シークするまで時計は戻らない）
+ * - requestAnimationFrameが止まるバックグラウンドのタブでは timeupdate で通知する
+ * - 停止中はシーク・一時停止など再生位置が変わった時だけ通知する
+ *
+ * @usage_example
+ * ```tsx
+ * <PlaybackProvider>
+ *   <audio ref={usePlayback().audioRef} src="..." />
+ * </PlaybackProvider>
+ *
+ * const { subscribeFrame } = usePlayback()
+ * useEffect(() => subscribeFrame((timeMs) => draw(timeMs)), [subscribeFrame])
+ * ```
+ */
+'use client'
+
+import {
+  createContext,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react'
+import { createPlaybackClock } from './clock'
+import { PLAYBACK_CLOCK_CONFIG } from './config'
+import type {
+  PlaybackContextValue,
+  PlaybackFader,
+  PlaybackFrameListener,
+  PlaybackState,
+} from './types'
+
+export const PlaybackContext = createContext<PlaybackContextValue | null>(null)
+
+/** 登録されたキュー */
+type Cue = {
+  timeMs: number
+  listener: () => void
+}
+
+export const PlaybackProvider = ({
+  children,
+}: {
+  children: React.ReactNode
+}): React.ReactNode => {
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const [state, setState] = useState<PlaybackState>('idle')
+  const [durationMs, setDurationMs] = useState<number>(0)
+  const frameListenersRef = useRef<Set<PlaybackFrameListener>>(new Set())
+  const cuesRef = useRef<Set<Cue>>(new Set())
+  const faderRef = useRef<PlaybackFader | null>(null)
+  /** フェードアウト中の一時停止（フェード中に再生し直した場合は取り消す） */
+  const pendingPauseRef = useRef<number>(0)
+  /** 経過時間で補う再生位置の時計 */
+  const clockRef = useRef(createPlaybackClock())
+
+  const getCurrentTime = useCallback((): number => {
+    const audio = audioRef.current
+    if (!audio) {
+      return 0
+    }
+    return clockRef.current.read(audio, performance.now())
+  }, [])
+
+  const subscribeFrame = useCallback((listener: PlaybackFrameListener) => {
+    frameListenersRef.current.add(listener)
+    return () => {
+      frameListenersRef.current.delete(listener)
+    }
+  }, [])
+
+  const subscribeCue = useCallback((timeMs: number, listener: () => void) => {
+    const cue: Cue = { timeMs, listener }
+    cuesRef.current.add(cue)
+    return () => {
+      cuesRef.current.delete(cue)
+    }
+  }, [])
+
+  const registerFader = useCallback((fader: PlaybackFader) => {
+    faderRef.current = fader
+    return () => {
+      if (faderRef.current === fader) {
+        faderRef.current = null
+      }
+    }
+  }, [])
+
+  const play = useCallback(() => {
+    pendingPauseRef.current += 1
+    audioRef.current?.play().catch((error) => {
+      console.error('PlaybackProvider: 再生に失敗しました', error)
+    })
+    faderRef.current?.fadeIn()
+  }, [])
+
+  const pause = useCallback(async () => {
+    const pauseId = ++pendingPauseRef.current
+    await faderRef.current?.fadeOut()
+    if (pauseId === pendingPauseRef.current) {
+      audioRef.current?.pause()
+    }
+  }, [])
+
+  const seek = useCallback((timeMs: number) => {
+    const audio = audioRef.current
+    if (!audio) {
+      return
+    }
+    const maxMs = Number.isFinite(audio.duration) ? audio.duration * 1000 : 0
+    clockRef.current.reset()
+    audio.currentTime = Math.min(Math.max(timeMs, 0), maxMs) / 1000
+  }, [])
+
+  const replay = useCallback(() => {
+    const audio = audioRef.current
+    if (!audio) {
+      return
+    }
+    clockRef.current.reset()
+    audio.currentTime = 0
+    play()
+  }, [play])
+
+  /**
+   * audio要素のイベントを購読し、状態の更新と再生位置の通知を行う
+   */
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio) {
+      console.error('PlaybackProvider: audio要素が見つかりません')
+      return
+    }
+
+    let animationId: number | null = null
+    let previousMs = getCurrentTime()
+
+    const notify = () => {
+      const timeMs = getCurrentTime()
+      frameListenersRef.current.forEach((listener) => listener(timeMs))
+      // 通常の再生で通過したキューだけを通知する（シーク・巻き戻しは除く）
+      const deltaMs = timeMs - previousMs
+      if (deltaMs > 0 && deltaMs < PLAYBACK_CLOCK_CONFIG.seekThresholdMs) {
+        cuesRef.current.forEach((cue) => {
+          if (cue.timeMs > previousMs && cue.timeMs <= timeMs) {
+            cue.listener()
+          }
+        })
+      }
+      previousMs = timeMs
+    }
+
+    const loop = () => {
+      notify()
+      animationId = requestAnimationFrame(loop)
+    }
+
+    const startLoop = () => {
+      if (animationId === null) {
+        animationId = requestAnimationFrame(loop)
+      }
+    }
+
+    const stopLoop = () => {
+      if (animationId !== null) {
+        cancelAnimationFrame(animationId)
+        animationId = null
+      }
+    }
+
+    const handlePlay = () => {
+      setState('playing')
+      startLoop()
+    }
+    const handlePause = () => {
+      stopLoop()
+      // 曲の終わりでもpauseが通知されるため、endedを優先する
+      setState(audio.ended ? 'ended' : 'paused')
+      notify()
+    }
+    const handleEnded = () => {
+      stopLoop()
+      setState('ended')
+      notify()
+    }
+    const handleWaiting = () => {
+      clockRef.current.setWaiting(true)
+    }
+    const handlePlaying = () => {
+      clockRef.current.setWaiting(false)
+    }
+    // seek() 以外（ネイティブのコントロールなど）でシークした場合も時計を戻せるようにする
+    const handleSeeking = () => {
+      clockRef.current.reset()
+    }
+    const handleDurationChange = () => {
+      setDurationMs(Number.isFinite(audio.duration) ? audio.duration * 1000 : 0)
+    }
+    const handleEmptied = () => {
+      stopLoop()
+      clockRef.current.reset()
+      setState('idle')
+      handleDurationChange()
+      notify()
+    }
+    // 停止中のシーク・バックグラウンドのタブでの再生でも通知する
+    const handleTimeUpdate = () => {
+      if (animationId === null || document.hidden) {
+        notify()
+      }
+    }
+
+    audio.addEventListener('play', handlePlay)
+    audio.addEventListener('pause', handlePause)
+    audio.addEventListener('ended', handleEnded)
+    audio.addEventListener('waiting', handleWaiting)
+    audio.addEventListener('playing', handlePlaying)
+    audio.addEventListener('durationchange', handleDurationChange)
+    audio.addEventListener('emptied', handleEmptied)
+    audio.addEventListener('seeking', handleSeeking)
+    audio.addEventListener('seeked', notify)
+    audio.addEventListener('timeupdate', handleTimeUpdate)
+
+    handleDurationChange()
+    if (!audio.paused) {
+      handlePlay()
+    }
+
+    return () => {
+      stopLoop()
+      audio.removeEventListener('play', handlePlay)
+      audio.removeEventListener('pause', handlePause)
+      audio.removeEventListener('ended', handleEnded)
+      audio.removeEventListener('waiting', handleWaiting)
+      audio.removeEventListener('playing', handlePlaying)
+      audio.removeEventListener('durationchange', handleDurationChange)
+      audio.removeEventListener('emptied', handleEmptied)
+      audio.removeEventListener('seeking', handleSeeking)
+      audio.removeEventListener('seeked', notify)
+      audio.removeEventListener('timeupdate', handleTimeUpdate)
+    }
+  }, [getCurrentTime])
+
+  const value = useMemo<PlaybackContextValue>(
+    () => ({
+      state,
+      durationMs,
+      audioRef,
+      getCurrentTime,
+      subscribeFrame,
+      subscribeCue,
+      registerFader,
+      play,
+      pause,
+      seek,
+      replay,
+    }),
+    [
+      state,
+      durationMs,
+      getCurrentTime,
+      subscribeFrame,
+      subscribeCue,
+      registerFader,
+      play,
+      pause,
+      seek,
+      replay,
+    ],
+  )
+
+  return (
+    <PlaybackContext.Provider value={value}>
+      {children}
+    </PlaybackContext.Provider>
+  )
+}
@@ -0,0 +1,59 @@
+/**
+ * 再生時計関連の型定義
+ *
+ * @description
+ * - 曲の再生状態と、再生位置を配る時計（PlaybackProvider）の型
+ */
+
+/**
+ * 再生状態
+ * - idle: まだ再生していない
+ * - playing: 再生中
+ * - paused: 一時停止中
+ * - ended: 最後まで再生した
+ */
+export type PlaybackState = 'idle' | 'playing' | 'paused' | 'ended'
+
+/** 再生位置の通知を受け取る関数 */
+export type PlaybackFrameListener = (timeMs: number) => void
+
+/** 購読を解除する関数 */
+export type Unsubscribe = () => void
+
+/**
+ * 再生・一時停止の時に音量をフェードさせる処理（BackgroundMusicが登録する）
+ */
+export type PlaybackFader = {
+  /** 再生を始めた時に音量を上げる */
+  fadeIn: () => void
+  /** 一時停止する前に音量を下げる（下げ終わったら解決する） */
+  fadeOut: () => Promise<void>
+}
+
+/**
+ * PlaybackProviderが配る値
+ */
+export type PlaybackContextValue = {
+  /** 再生状態 */
+  state: PlaybackState
+  /** 曲の長さ（ミリ秒、読み込み前は0） */
+  durationMs: number
+  /** 再生するaudio要素のref（audio要素を描画するコンポーネントに渡す） */
+  audioRef: React.RefObject<HTMLAudioElement | null>
+  /** 現在の再生位置（ミリ秒） */
+  getCurrentTime: () => number
+  /** 再生中は毎フレーム、停止中はシークなどで再生位置が変わった時に通知を受け取る */
+  subscribeFrame: (listener: PlaybackFrameListener) => Unsubscribe
+  /** 再生位置がtimeMsを通過した時に通知を受け取る（シークで飛び越えた場合は通知しない） */
+  subscribeCue: (timeMs: number, listener: () => void) => Unsubscribe
+  /** 再生・一時停止の時に音量をフェードさせる処理を登録する */
+  registerFader: (fader: PlaybackFader) => Unsubscribe
+  /** 再生する（ブラウザの自動再生ポリシーのため、ユーザー操作の中で呼ぶ） */
+  play: () => void
+  /** 一時停止する（フェードが登録されている場合は音量を下げてから止める） */
+  pause: () => void
+  /** 再生位置（ミリ秒）にシークする */
+  seek: (timeMs: number) => void
+  /** 最初から再生する */
+  replay: () => void
+}
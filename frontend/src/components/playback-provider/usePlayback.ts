@@ -0,0 +1,29 @@
+import { useContext, useEffect, useState } from 'react'
+import { PlaybackContext } from '.'
+import type { PlaybackContextValue } from './types'
+
+/**
+ * 曲の再生状態と操作を取得する
+ * PlaybackProviderの内側で使用する
+ */
+export const usePlayback = (): PlaybackContextValue => {
+  const context = useContext(PlaybackContext)
+  if (!context) {
+    throw new Error('usePlayback: PlaybackProviderの内側で使用してください')
+  }
+  return context
+}
+
+/**
+ * 現在の再生位置（ミリ秒）を取得する
+ * 再生中は毎フレーム再描画されるため、再生位置を表示するコンポーネントでのみ使用する
+ * （描画ループで使う場合は subscribeFrame を使う）
+ */
+export const usePlaybackTime = (): number => {
+  const { getCurrentTime, subscribeFrame } = usePlayback()
+  const [timeMs, setTimeMs] = useState<number>(getCurrentTime)
+
+  useEffect(() => subscribeFrame(setTimeMs), [subscribeFrame])
+
+  return timeMs
+}
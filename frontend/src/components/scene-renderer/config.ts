@@ -0,0 +1,167 @@
+/**
+ * シーン描画の設定定数
+ *
+ * @sections
+ * - SCENE_CONFIG: 描画全体の設定
+ * - PARALLAX_LAYERS: 背景のパララックスの層
+ * - AVATAR_SLOTS: アバターの表示位置
+ * - CHOREOGRAPHY_PRESETS: アバターの動きのプリセット
+ * - BEAT_REACTION_CONFIG: ビートへの反応
+ * - CITY_LIGHTS_CONFIG: 街の窓の明かり
+ * - HIGHLIGHT_CONFIG: アバターを目立たせる光
+ */
+
+import type { AvatarSlot, Choreography, ParallaxLayer } from './types'
+
+/**
+ * 描画全体の設定
+ */
+export const SCENE_CONFIG = {
+  /** デバイスピクセル比の上限（描画負荷を抑える） */
+  maxDevicePixelRatio: 2,
+} as const
+
+/**
+ * 背景のパララックスの層（奥から手前の順）
+ * 手前に置く小物などは depth: 'front' の層として追加する
+ */
+export const PARALLAX_LAYERS: ParallaxLayer[] = [
+  {
+    id: 'sky',
+    src: '/images/twinkle-bg.png',
+    height: 'cover',
+    offsetY: 0,
+    scrollDuration: null,
+    repeat: false,
+    opacity: 1,
+    depth: 'back',
+  },
+  {
+    id: 'far-city',
+    src: '/images/twinkle-city-long.png',
+    height: 0.5,
+    offsetY: 0,
+    scrollDuration: 140,
+    repeat: true,
+    opacity: 0.5,
+    depth: 'back',
+  },
+  {
+    id: 'near-city',
+    src: '/images/twinkle-city-short-transparent.png',
+    height: 0.58,
+    offsetY: 0,
+    scrollDuration: 70,
+    repeat: true,
+    opacity: 1,
+    depth: 'back',
+  },
+]
+
+/**
+ * アバターの表示位置（左から右への並び順）
+ * 手前のアバターほど大きく、地面との距離で奥行きを出す
+ */
+export const AVATAR_SLOTS: AvatarSlot[] = [
+  { right: 330, bottom: 15, height: 190, phase: 0 },
+  { right: 155, bottom: 5, height: 210, phase: 1 },
+  { right: 30, bottom: -5, height: 170, phase: 2 },
+]
+
+/** 動きのプリセット名 */
+export type ChoreographyPresetName = 'float' | 'walk' | 'sway' | 'bounce'
+
+/**
+ * アバターの動きのプリセット
+ */
+export const CHOREOGRAPHY_PRESETS: Record<
+  ChoreographyPresetName,
+  { label: string; choreography: Choreography }
+> = {
+  /** ふわふわ: 4秒かけてゆっくり浮き沈みする（MVの基本の動き） */
+  float: {
+    label: 'ふわふわ',
+    choreography: {
+      bob: { amplitude: 15, period: 4, easing: 'sine' },
+      hop: null,
+      sway: null,
+      jump: null,
+      syncToBpm: true,
+    },
+  },
+  /** てくてく: 小刻みに跳ねながら左右に揺れて歩く */
+  walk: {
+    label: 'てくてく',
+    choreography: {
+      bob: { amplitude: 4, period: 2, easing: 'sine' },
+      hop: { height: 6, period: 0.5 },
+      sway: { angle: 3, period: 1 },
+      jump: null,
+      syncToBpm: true,
+    },
+  },
+  /** ゆらゆら: 浮きながら大きく左右に揺れる */
+  sway: {
+    label: 'ゆらゆら',
+    choreography: {
+      bob: { amplitude: 10, period: 4, easing: 'ease-in-out' },
+      hop: null,
+      sway: { angle: 8, period: 3 },
+      jump: null,
+      syncToBpm: true,
+    },
+  },
+  /** ぴょんぴょん: 弾むように浮き、ときどき大きくジャンプする */
+  bounce: {
+    label: 'ぴょんぴょん',
+    choreography: {
+      bob: { amplitude: 6, period: 1, easing: 'ease-out' },
+      hop: null,
+      sway: null,
+      jump: { height: 40, duration: 0.6, interval: 6 },
+      syncToBpm: true,
+    },
+  },
+}
+
+/** 動きを指定しない場合のプリセット */
+export const DEFAULT_CHOREOGRAPHY: ChoreographyPresetName = 'float'
+
+/**
+ * ビートへの反応の設定
+ */
+export const BEAT_REACTION_CONFIG = {
+  /** ビートでアバターが跳ねる高さ（px、最も強いビートのとき） */
+  hopHeight: 10,
+  /** 跳ねている時間（秒） */
+  hopDuration: 0.25,
+  /** エフェクトが光ってから元に戻るまでの時間（秒） */
+  flashDuration: 0.4,
+} as const
+
+/**
+ * 街の窓の明かり（createCityLightsEffect）
+ * 明かりの高さは街の層の高さに対する割合で、層の下端から測る
+ */
+export const CITY_LIGHTS_CONFIG = {
+  /** 明かりの数 */
+  count: 40,
+  /** 明かりを置く範囲の下端（建物が途切れない下端付近） */
+  minHeight: 0.03,
+  /** 明かりを置く範囲の上端 */
+  maxHeight: 0.16,
+  /** ビートで光る明かりの割合 */
+  reactiveRatio: 0.5,
+} as const
+
+/**
+ * アバターを目立たせる光（SceneSprite.highlighted）
+ */
+export const HIGHLIGHT_CONFIG = {
+  /** 光の色 */
+  color: 'rgba(255, 211, 110, 0.9)',
+  /** 光のぼかしの大きさ（CSS px） */
+  blur: 18,
+  /** 光り始めてから最大になるまで・消えるまでの時間（秒） */
+  fadeDuration: 0.3,
+} as const
@@ -0,0 +1,132 @@
+/**
+ * シーンのエフェクト
+ *
+ * @description
+ * - 背景・街・アバターの上に重ねて描画するエフェクト（SceneEffect）を提供する
+ * - 描画開始からの経過時間に同期してアニメーションし、ビートに合わせて光る
+ */
+
+import { BEAT_REACTION_CONFIG, CITY_LIGHTS_CONFIG } from './config'
+import type { BeatPulse, ParallaxLayer, SceneEffect } from './types'
+
+/** 星の色（背景の星と同じ黄色） */
+const STAR_COLOR = '#FCFFA8'
+
+/**
+ * ビートの直後ほど大きくなる光り具合（0〜1）
+ */
+const getFlash = ({ elapsed, strength }: BeatPulse) =>
+  Math.max(1 - elapsed / BEAT_REACTION_CONFIG.flashDuration, 0) * strength
+
+/**
+ * 乱数の種から同じ並びの乱数を返す関数を作る
+ * 描画のたびに星の位置が変わらないようにする
+ */
+const createRandom = (seed: number) => {
+  let value = seed
+  return () => {
+    value = (value * 9301 + 49297) % 233280
+    return value / 233280
+  }
+}
+
+/**
+ * 夜空の星がまたたくエフェクトを作成する
+ *
+ * @param count 星の数
+ * @param seed 星の配置を決める乱数の種
+ */
+export const createStarTwinkleEffect = (count = 24, seed = 7): SceneEffect => {
+  const random = createRandom(seed)
+  const stars = Array.from({ length: count }, () => ({
+    // 星は街にかからない上部に配置する（位置はシーンに対する割合）
+    x: random(),
+    y: random() * 0.4,
+    size: random() < 0.8 ? 2 : 3,
+    speed: 1 + random() * 2,
+    phase: random() * Math.PI * 2,
+  }))
+
+  return (context, { time, width, height, beat }) => {
+    const flash = getFlash(beat)
+    context.save()
+    context.fillStyle = STAR_COLOR
+    stars.forEach((star) => {
+      // ビートの直後はすべての星が明るくなる
+      const twinkle = (1 + Math.sin(time * star.speed + star.phase)) / 2
+      context.globalAlpha = Math.min(twinkle + flash, 1)
+      context.fillRect(
+        Math.round(star.x * width),
+        Math.round(star.y * height),
+        star.size,
+        star.size,
+      )
+    })
+    context.restore()
+  }
+}
+
+/**
+ * 街の明かりを重ねる層を選ぶ
+ * アバターの奥でスクロールする層のうち、最も手前の層（近くの街）を使う
+ *
+ * @param layers 背景のパララックスの層（奥から手前の順）
+ * @returns 街の層（ない場合はnull）
+ */
+export const findCityLayer = (layers: ParallaxLayer[]): ParallaxLayer | null =>
+  layers.findLast(
+    (layer) =>
+      layer.depth === 'back' &&
+      layer.repeat &&
+      layer.scrollDuration !== null &&
+      layer.height !== 'cover',
+  ) ?? null
+
+/**
+ * 街の窓の明かりがちらつくエフェクトを作成する
+ * 明かりは街の層の下端付近に置いて層と同じ速さでスクロールし、ビートの直後に一部が強く光る
+ *
+ * @param layer 明かりを重ねる街の層（高さ・位置・スクロール時間を使う）
+ * @param seed 明かりの配置を決める乱数の種
+ */
+export const createCityLightsEffect = (
+  layer: ParallaxLayer,
+  seed = 11,
+): SceneEffect => {
+  const { count, minHeight, maxHeight, reactiveRatio } = CITY_LIGHTS_CONFIG
+  const layerHeight = layer.height === 'cover' ? 1 : layer.height
+  const random = createRandom(seed)
+  const lights = Array.from({ length: count }, () => ({
+    // 位置はシーンに対する割合（縦は層の下端から、層の高さに対する割合で決める）
+    x: random(),
+    y:
+      1 -
+      layer.offsetY -
+      layerHeight * (minHeight + random() * (maxHeight - minHeight)),
+    phase: random() * Math.PI * 2,
+    // ビートで光るのは一部の明かりだけ
+    isReactive: random() < reactiveRatio,
+  }))
+
+  return (context, { time, width, height, beat }) => {
+    const flash = getFlash(beat)
+    // パララックスの層と同じく、scrollDuration秒でシーンの幅の分だけ進む
+    const scroll = layer.scrollDuration ? (time / layer.scrollDuration) % 1 : 0
+    context.save()
+    context.fillStyle = STAR_COLOR
+    lights.forEach((light) => {
+      const flicker = 0.2 + 0.15 * Math.sin(time * 3 + light.phase)
+      context.globalAlpha = Math.min(
+        flicker + (light.isReactive ? flash * 0.8 : 0),
+        1,
+      )
+      context.fillRect(
+        Math.round(((light.x + scroll) % 1) * width),
+        Math.round(light.y * height),
+        2,
+        3,
+      )
+    })
+    context.restore()
+  }
+}
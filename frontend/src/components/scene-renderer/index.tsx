@@ -0,0 +1,307 @@
+/**
+ * シーン描画コンポーネント
+ *
+ * @description
+ * - パララックス背景、アバター、エフェクトを1枚のCanvasに描画する
+ * - requestAnimationFrameのフレームループで、描画開始からの経過時間に同期して描画する
+ *   （背景・アバターの動きは曲の再生状態に関係なく動き続け、ビートはtriggerBeatで受け取る）
+ * - 親要素の大きさに合わせてCanvasをリサイズする
+ *
+ * @features
+ * - 速度の異なる複数の層によるパララックス背景（ParallaxLayer）
+ * - アバターごとの振り付け（Choreography）と、曲のBPMへの同期
+ * - 経過時間に同期したエフェクト（SceneEffect）の重ね描き
+ * - ビートに合わせてアバターを跳ねさせ、エフェクトに伝える（refのtriggerBeat）
+ * - デバイスピクセル比に合わせた描画と、整数ピクセルへの位置合わせ
+ * - 現在のフレームのキャプチャ（refのcaptureFrame）
+ *
+ * @canvas_rendering
+ * 1. 奥の層: depth: 'back' の層を奥から順に描画する（夜空・遠くの街・近くの街）
+ * 2. アバター: 足元の位置を地面に合わせ、振り付けのずれ・回転を加えて描画する
+ *    （highlightedのアバターは輪郭に沿って光らせる）
+ * 3. 手前の層: depth: 'front' の層を描画する
+ * 4. エフェクト: 渡された順に重ねて描画する
+ *
+ * @props
+ * - avatars: 描画するアバター（左から右への並び順、highlightedで光らせる）
+ * - layers: パララックスの層（デフォルト: 夜空と2層の街）
+ * - bpm: 曲のBPM（振り付けの周期を拍に揃える）
+ * - effects: 重ねて描画するエフェクト
+ * - ref: captureFrame・triggerBeatを公開する
+ */
+
+'use client'
+
+import { useEffect, useImperativeHandle, useRef } from 'react'
+import {
+  AVATAR_SLOTS,
+  BEAT_REACTION_CONFIG,
+  CHOREOGRAPHY_PRESETS,
+  DEFAULT_CHOREOGRAPHY,
+  HIGHLIGHT_CONFIG,
+  PARALLAX_LAYERS,
+  SCENE_CONFIG,
+} from './config'
+import { computeMotion } from './motion'
+import { drawParallaxLayer } from './parallax'
+import styles from './style.module.css'
+import type {
+  FrameInfo,
+  ParallaxLayer,
+  SceneEffect,
+  SceneRendererHandle,
+  SceneSprite,
+} from './types'
+
+type Props = {
+  /** 描画するアバター（左から右への並び順） */
+  avatars: SceneSprite[]
+  /** パララックスの層（奥から手前の順） */
+  layers?: ParallaxLayer[]
+  /** 曲のBPM（不明な場合はnull） */
+  bpm?: number | null
+  /** 重ねて描画するエフェクト */
+  effects?: SceneEffect[]
+  /** captureFrame・triggerBeatを公開するref */
+  ref?: React.Ref<SceneRendererHandle>
+}
+
+/**
+ * 画像を読み込む
+ * フレームをキャプチャできるようCORSで読み込み、失敗した場合はCORSなしで読み込み直す
+ */
+const loadImage = (src: string, useCors = true): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image()
+    if (useCors && !src.startsWith('/') && !src.startsWith('blob:')) {
+      image.crossOrigin = 'anonymous'
+    }
+    image.onload = () => resolve(image)
+    image.onerror = () => {
+      if (image.crossOrigin) {
+        console.warn('SceneRenderer: CORSなしで画像を読み込み直します', src)
+        loadImage(src, false).then(resolve, reject)
+        return
+      }
+      reject(new Error(`画像の読み込みに失敗しました: ${src}`))
+    }
+    image.src = src
+  })
+
+export const SceneRenderer = ({
+  avatars,
+  layers = PARALLAX_LAYERS,
+  bpm = null,
+  effects = [],
+  ref,
+}: Props): React.ReactNode => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  /** 読み込み済みの画像（URLごと） */
+  const imagesRef = useRef<Map<string, HTMLImageElement>>(new Map())
+  /** フレームループから参照する最新のprops */
+  const sceneRef = useRef({ avatars, layers, bpm, effects })
+  /** 直近のビート（描画開始からの時刻と強さ） */
+  const beatRef = useRef<{ time: number; strength: number } | null>(null)
+  /** 描画開始からの経過時間（秒） */
+  const timeRef = useRef<number>(0)
+
+  useEffect(() => {
+    sceneRef.current = { avatars, layers, bpm, effects }
+  }, [avatars, layers, bpm, effects])
+
+  useImperativeHandle(ref, () => ({
+    captureFrame: () =>
+      new Promise((resolve) => {
+        const canvas = canvasRef.current
+        if (!canvas) {
+          resolve(null)
+          return
+        }
+        try {
+          canvas.toBlob(resolve, 'image/png')
+        } catch (error) {
+          // CORSなしで読み込んだ画像を描画していると書き出せない
+          console.error('SceneRenderer: フレームのキャプチャエラー', error)
+          resolve(null)
+        }
+      }),
+    triggerBeat: (strength) => {
+      beatRef.current = { time: timeRef.current, strength }
+    },
+  }))
+
+  /**
+   * パララックスの層とアバターの画像を読み込む
+   */
+  useEffect(() => {
+    const sources = [
+      ...layers.map((layer) => layer.src),
+      ...avatars.map((avatar) => avatar.url),
+    ]
+    sources
+      .filter((src) => !imagesRef.current.has(src))
+      .forEach((src) => {
+        loadImage(src)
+          .then((image) => imagesRef.current.set(src, image))
+          .catch((error) => console.error('SceneRenderer:', error.message))
+      })
+  }, [layers, avatars])
+
+  /**
+   * フレームループ
+   */
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) {
+      console.error('SceneRenderer: Canvas要素が見つかりません')
+      return
+    }
+
+    let width = 0
+    let height = 0
+    let pixelRatio = 1
+
+    // 親要素の大きさに合わせてCanvasの解像度を変える
+    const resize = () => {
+      const parent = canvas.parentElement
+      if (!parent) {
+        return
+      }
+      const devicePixelRatio = Math.min(
+        window.devicePixelRatio || 1,
+        SCENE_CONFIG.maxDevicePixelRatio,
+      )
+      pixelRatio = devicePixelRatio
+      width = parent.clientWidth
+      height = parent.clientHeight
+      canvas.width = Math.round(width * devicePixelRatio)
+      canvas.height = Math.round(height * devicePixelRatio)
+      context.setTransform(devicePixelRatio, 0, 0, devicePixelRatio, 0, 0)
+    }
+    resize()
+    const resizeObserver = new ResizeObserver(resize)
+    if (canvas.parentElement) {
+      resizeObserver.observe(canvas.parentElement)
+    }
+
+    const images = imagesRef.current
+    const startedAt = performance.now()
+    let previousTime = 0
+    /** 拍の位置（拍数、BPMが変わっても途切れないようフレームごとに積み上げる） */
+    let beatPosition = 0
+    let animationId = 0
+    /** アバターごとの光の強さ（0〜1、切り替え時にフェードさせる） */
+    const highlightLevels = new Map<string, number>()
+
+    const draw = (now: number) => {
+      const scene = sceneRef.current
+      const time = (now - startedAt) / 1000
+      timeRef.current = time
+      const beat = beatRef.current
+      const frame: FrameInfo = {
+        time,
+        deltaTime: Math.max(time - previousTime, 0),
+        width,
+        height,
+        beat: beat
+          ? { elapsed: time - beat.time, strength: beat.strength }
+          : { elapsed: Infinity, strength: 0 },
+      }
+      previousTime = time
+      beatPosition += scene.bpm ? (frame.deltaTime * scene.bpm) / 60 : 0
+      const beatClock = scene.bpm
+        ? { bpm: scene.bpm, position: beatPosition }
+        : null
+
+      const drawLayers = (depth: ParallaxLayer['depth']) => {
+        context.imageSmoothingEnabled = true
+        scene.layers
+          .filter((layer) => layer.depth === depth)
+          .forEach((layer) => {
+            const image = images.get(layer.src)
+            if (image) {
+              drawParallaxLayer(context, image, layer, frame)
+            }
+          })
+      }
+
+      context.clearRect(0, 0, width, height)
+      drawLayers('back')
+
+      scene.avatars.forEach((avatar, index) => {
+        const image = images.get(avatar.url)
+        const slot = AVATAR_SLOTS[index]
+        if (!image || !slot) {
+          return
+        }
+        const avatarWidth = (image.width / image.height) * slot.height
+        const offset = computeMotion(
+          avatar.choreography ??
+            CHOREOGRAPHY_PRESETS[DEFAULT_CHOREOGRAPHY].choreography,
+          time,
+          slot.phase,
+          beatClock,
+        )
+        // ビートの直後は放物線を描いて跳ねる
+        const hopProgress =
+          frame.beat.elapsed / BEAT_REACTION_CONFIG.hopDuration
+        if (hopProgress < 1) {
+          offset.y -=
+            BEAT_REACTION_CONFIG.hopHeight *
+            frame.beat.strength *
+            4 *
+            hopProgress *
+            (1 - hopProgress)
+        }
+        // 足元（画像の中央・足元の位置）を原点にして、地面の高さに合わせる
+        const footX = Math.round(
+          width - slot.right - avatarWidth / 2 + offset.x,
+        )
+        const footY = Math.round(height - slot.bottom + offset.y)
+        const highlightStep = frame.deltaTime / HIGHLIGHT_CONFIG.fadeDuration
+        const highlightLevel = Math.min(
+          1,
+          Math.max(
+            0,
+            (highlightLevels.get(avatar.id) ?? 0) +
+              (avatar.highlighted ? highlightStep : -highlightStep),
+          ),
+        )
+        highlightLevels.set(avatar.id, highlightLevel)
+        context.save()
+        context.translate(footX, footY)
+        context.rotate(offset.rotation)
+        if (highlightLevel > 0) {
+          // 影は変換の影響を受けないため、デバイスピクセル比を掛けて大きさを合わせる
+          context.shadowColor = HIGHLIGHT_CONFIG.color
+          context.shadowBlur =
+            HIGHLIGHT_CONFIG.blur * highlightLevel * pixelRatio
+        }
+        // 拡大時はドット絵がぼやけないよう補間しない
+        context.imageSmoothingEnabled = slot.height < image.height
+        context.drawImage(
+          image,
+          Math.round(-avatarWidth / 2),
+          Math.round(-slot.height * avatar.groundAnchor),
+          Math.round(avatarWidth),
+          slot.height,
+        )
+        context.restore()
+      })
+
+      drawLayers('front')
+      scene.effects.forEach((effect) => effect(context, frame))
+
+      animationId = requestAnimationFrame(draw)
+    }
+    animationId = requestAnimationFrame(draw)
+
+    return () => {
+      cancelAnimationFrame(animationId)
+      resizeObserver.disconnect()
+    }
+  }, [])
+
+  return <canvas ref={canvasRef} className={styles.canvas} />
+}
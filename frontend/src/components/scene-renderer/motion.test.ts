@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { CHOREOGRAPHY_PRESETS } from './config'
+import { computeMotion } from './motion'
+
+describe('computeMotion', () => {
+  const { choreography } = CHOREOGRAPHY_PRESETS.float
+
+  it('BPMが変わっても、同じ拍の位置では同じ動きになる（動きが飛ばない）', () => {
+    const before = computeMotion(choreography, 10, 1, {
+      bpm: 120,
+      position: 13.4,
+    })
+    const after = computeMotion(choreography, 10, 1, {
+      bpm: 122,
+      position: 13.4,
+    })
+
+    expect(after).toEqual(before)
+  })
+
+  it('拍の位置を積み上げると、フレーム間の変化は小さいまま進む', () => {
+    let position = 0
+    let previous = computeMotion(choreography, 0, 0, { bpm: 120, position })
+    for (let frame = 1; frame <= 600; frame++) {
+      // 途中でBPMの推定が変わる（周期の拍数は変わらない範囲）
+      const bpm = frame < 300 ? 120 : 122
+      position += bpm / 60 / 60
+      const offset = computeMotion(choreography, frame / 60, 0, {
+        bpm,
+        position,
+      })
+      expect(Math.abs(offset.y - previous.y)).toBeLessThan(1)
+      previous = offset
+    }
+  })
+
+  it('BPMに合わせない場合は経過時間で動く', () => {
+    const offset = computeMotion({ ...choreography, syncToBpm: false }, 1, 0, {
+      bpm: 120,
+      position: 0,
+    })
+
+    expect(offset).toEqual(computeMotion(choreography, 1, 0, null))
+  })
+})
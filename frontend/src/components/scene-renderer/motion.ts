@@ -0,0 +1,105 @@
+/**
+ * アバターの動き
+ *
+ * @description
+ * - 振り付け（Choreography）と時刻から、アバターの表示位置からのずれを計算する
+ * - 上下のふわふわ・歩くような跳ね・左右の揺れ・ときどきのジャンプを重ね合わせる
+ * - BPMが分かる場合は周期を拍の長さの整数倍に揃え、曲に合わせて動かす
+ *   （周期内の進み具合は拍の位置から求めるため、BPMが変わっても動きが飛ばない）
+ *
+ * @usage_example
+ * ```typescript
+ * const offset = computeMotion(choreography, time, slot.phase, {
+ *   bpm: 120,
+ *   position: beatPosition,
+ * })
+ * context.translate(offset.x, offset.y)
+ * context.rotate(offset.rotation)
+ * ```
+ */
+
+import type { BeatClock, Choreography, EasingName, MotionOffset } from './types'
+
+/**
+ * イージング関数（0〜1の進み具合を0〜1の変化量に変換する）
+ */
+const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: (t) => t,
+  sine: (t) => (1 - Math.cos(t * Math.PI)) / 2,
+  'ease-in-out': (t) =>
+    t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+  'ease-out': (t) => 1 - (1 - t) * (1 - t),
+}
+
+/**
+ * 周期を拍数（1拍以上の整数）に揃える
+ */
+const toBeats = (seconds: number, beatDuration: number) =>
+  Math.max(1, Math.round(seconds / beatDuration))
+
+/**
+ * 時刻での周期内の進み具合（0〜1）
+ */
+const getProgress = (time: number, period: number) =>
+  (((time % period) + period) % period) / period
+
+/**
+ * 振り付けに従ってアバターのずれを計算する
+ *
+ * @param choreography 振り付け
+ * @param time 描画開始からの経過時間（秒）
+ * @param phase 動きの位相のずれ（秒）
+ * @param beatClock 拍の進み具合（BPMが不明な場合はnull）
+ */
+export const computeMotion = (
+  choreography: Choreography,
+  time: number,
+  phase: number,
+  beatClock: BeatClock | null = null,
+): MotionOffset => {
+  const beat = choreography.syncToBpm ? beatClock : null
+  /**
+   * 周期（秒）の中での進み具合（0〜1）
+   * BPMに合わせる場合は周期を拍数に揃え、拍の位置から求める
+   */
+  const getCycleProgress = (period: number) => {
+    if (!beat) {
+      return getProgress(time + phase, period)
+    }
+    const beatDuration = 60 / beat.bpm
+    return getProgress(
+      beat.position + Math.round(phase / beatDuration),
+      toBeats(period, beatDuration),
+    )
+  }
+  const offset: MotionOffset = { x: 0, y: 0, rotation: 0 }
+
+  const { bob, hop, sway, jump } = choreography
+  if (bob) {
+    // 0→1→0 と往復する三角波にイージングをかける
+    const progress = getCycleProgress(bob.period)
+    const triangle = progress < 0.5 ? progress * 2 : 2 - progress * 2
+    offset.y -= bob.amplitude * EASINGS[bob.easing](triangle)
+  }
+  if (hop) {
+    const progress = getCycleProgress(hop.period)
+    offset.y -= hop.height * Math.sin(progress * Math.PI)
+  }
+  if (sway) {
+    const progress = getCycleProgress(sway.period)
+    offset.rotation =
+      ((sway.angle * Math.PI) / 180) * Math.sin(progress * Math.PI * 2)
+  }
+  if (jump) {
+    // 間隔ごとの始めにだけ放物線を描いてジャンプする
+    const interval = beat
+      ? toBeats(jump.interval, 60 / beat.bpm) * (60 / beat.bpm)
+      : jump.interval
+    const elapsed = getCycleProgress(jump.interval) * interval
+    if (elapsed < jump.duration) {
+      const progress = elapsed / jump.duration
+      offset.y -= jump.height * 4 * progress * (1 - progress)
+    }
+  }
+  return offset
+}
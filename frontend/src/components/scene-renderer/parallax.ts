@@ -0,0 +1,85 @@
+/**
+ * パララックス背景の描画
+ *
+ * @description
+ * - 層ごとの大きさ・位置・スクロール速度・不透明度に従って画像を描画する
+ * - 繰り返す層は画像の幅ごとに敷き詰め、どの画面幅でも継ぎ目なくスクロールする
+ * - 横に長い画像でも見えている範囲だけを切り出して描画する
+ */
+
+import type { FrameInfo, ParallaxLayer } from './types'
+
+/**
+ * 層の画像を描画する大きさと縦位置を計算する
+ */
+const measureLayer = (
+  image: HTMLImageElement,
+  layer: ParallaxLayer,
+  width: number,
+  height: number,
+) => {
+  if (layer.height === 'cover') {
+    const scale = Math.max(width / image.width, height / image.height)
+    const tileHeight = image.height * scale
+    return {
+      tileWidth: image.width * scale,
+      tileHeight,
+      y: (height - tileHeight) / 2,
+    }
+  }
+  const tileHeight = height * layer.height
+  return {
+    tileWidth: (image.width / image.height) * tileHeight,
+    tileHeight,
+    y: height - tileHeight - height * layer.offsetY,
+  }
+}
+
+/**
+ * パララックスの1層を描画する
+ */
+export const drawParallaxLayer = (
+  context: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  layer: ParallaxLayer,
+  { time, width, height }: FrameInfo,
+) => {
+  const { tileWidth, tileHeight, y } = measureLayer(image, layer, width, height)
+
+  /**
+   * 左端がxの位置にある画像のうち、シーン内に見えている部分を描画する
+   */
+  const drawTile = (x: number) => {
+    const left = Math.max(x, 0)
+    const right = Math.min(x + tileWidth, width)
+    if (right <= left) {
+      return
+    }
+    const sourceScale = image.width / tileWidth
+    // 継ぎ目に隙間ができないよう整数ピクセルに揃えて少し重ねる
+    context.drawImage(
+      image,
+      (left - x) * sourceScale,
+      0,
+      (right - left) * sourceScale,
+      image.height,
+      Math.floor(left),
+      Math.round(y),
+      Math.ceil(right - left) + 1,
+      Math.round(tileHeight),
+    )
+  }
+
+  context.save()
+  context.globalAlpha = layer.opacity
+  if (layer.repeat) {
+    const speed = layer.scrollDuration ? width / layer.scrollDuration : 0
+    const offset = (time * speed) % tileWidth
+    for (let x = offset - tileWidth; x < width; x += tileWidth) {
+      drawTile(x)
+    }
+  } else {
+    drawTile((width - tileWidth) / 2)
+  }
+  context.restore()
+}
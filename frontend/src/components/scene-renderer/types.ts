@@ -0,0 +1,163 @@
+/**
+ * シーン描画関連の型定義
+ *
+ * @description
+ * - Canvasに描画するアバター・配置・動き・エフェクトの型
+ * - 親コンポーネントに公開する操作（フレームのキャプチャ）の型
+ */
+
+/** 描画するアバター */
+export type SceneSprite = {
+  /** アバターの識別子 */
+  id: string
+  /** 画像のURL */
+  url: string
+  /** 足元の位置（画像の上端を0、下端を1とした割合） */
+  groundAnchor: number
+  /** 動き（省略時はふわふわ上下する） */
+  choreography?: Choreography
+  /** 光らせて目立たせるか（歌っている歌い手のアバターなど） */
+  highlighted?: boolean
+}
+
+/**
+ * パララックスの1層
+ * 奥の層ほどゆっくりスクロールさせることで奥行きを出す
+ */
+export type ParallaxLayer = {
+  /** 層の識別子 */
+  id: string
+  /** 画像のパス */
+  src: string
+  /**
+   * 高さ（シーンの高さに対する割合）
+   * 'cover' の場合はシーン全体を覆う大きさにする
+   */
+  height: number | 'cover'
+  /** 下端から持ち上げる量（シーンの高さに対する割合） */
+  offsetY: number
+  /** シーンの幅の分だけスクロールするのにかかる時間（秒、nullの場合は静止） */
+  scrollDuration: number | null
+  /** 横方向に繰り返して敷き詰めるか */
+  repeat: boolean
+  /** 不透明度（遠くの層は薄くして霞ませる） */
+  opacity: number
+  /** 描画順（back: アバターの奥、front: アバターの手前） */
+  depth: 'back' | 'front'
+}
+
+/** アバターの表示位置（CSS pxで指定） */
+export type AvatarSlot = {
+  /** 右端からの距離 */
+  right: number
+  /** 地面（シーンの下端）からの高さ */
+  bottom: number
+  /** 表示する高さ */
+  height: number
+  /** 動きの位相のずれ（秒） */
+  phase: number
+}
+
+/** 直近のビートの状態 */
+export type BeatPulse = {
+  /** 直近のビートからの経過時間（秒、ビートがまだない場合はInfinity） */
+  elapsed: number
+  /** 直近のビートの強さ（0〜1） */
+  strength: number
+}
+
+/** 1フレーム分の描画情報 */
+export type FrameInfo = {
+  /** 描画開始からの経過時間（秒） */
+  time: number
+  /** 前のフレームからの経過時間（秒） */
+  deltaTime: number
+  /** シーンの幅（CSS px） */
+  width: number
+  /** シーンの高さ（CSS px） */
+  height: number
+  /** 直近のビート */
+  beat: BeatPulse
+}
+
+/**
+ * 拍の進み具合（BPMに合わせる動きに使う）
+ * 拍の位置はフレームごとに経過時間×BPMで積み上げるため、BPMが変わっても途切れずに進む
+ */
+export type BeatClock = {
+  /** 曲のBPM */
+  bpm: number
+  /** 描画開始からの拍の位置（拍数） */
+  position: number
+}
+
+/** アバターの表示位置からのずれ */
+export type MotionOffset = {
+  /** 横方向のずれ（CSS px） */
+  x: number
+  /** 縦方向のずれ（CSS px、上方向が負） */
+  y: number
+  /** 足元を中心とした回転（ラジアン） */
+  rotation: number
+}
+
+/** イージングの種類 */
+export type EasingName = 'linear' | 'sine' | 'ease-in-out' | 'ease-out'
+
+/**
+ * アバターの動きの振り付け
+ * 各動きを重ね合わせて1つの動きにする（使わない動きはnull）
+ */
+export type Choreography = {
+  /** 上下にふわふわ浮く動き */
+  bob: {
+    /** 浮き上がる高さ（px） */
+    amplitude: number
+    /** 1往復にかかる時間（秒） */
+    period: number
+    /** 浮き上がるときの速度変化 */
+    easing: EasingName
+  } | null
+  /** 歩くように小さく跳ねる動き */
+  hop: {
+    /** 跳ねる高さ（px） */
+    height: number
+    /** 1歩にかかる時間（秒） */
+    period: number
+  } | null
+  /** 足元を中心に左右に揺れる動き */
+  sway: {
+    /** 揺れる角度（度） */
+    angle: number
+    /** 1往復にかかる時間（秒） */
+    period: number
+  } | null
+  /** ときどき大きくジャンプする動き */
+  jump: {
+    /** ジャンプの高さ（px） */
+    height: number
+    /** ジャンプしている時間（秒） */
+    duration: number
+    /** ジャンプする間隔（秒） */
+    interval: number
+  } | null
+  /** 曲のBPMが分かる場合、周期を拍の長さに揃えるか */
+  syncToBpm: boolean
+}
+
+/**
+ * エフェクト
+ * 背景・街・アバターを描画した後に、フレームごとに呼び出される
+ */
+export type SceneEffect = (
+  context: CanvasRenderingContext2D,
+  frame: FrameInfo,
+) => void
+
+/** 親コンポーネントに公開する操作 */
+export type SceneRendererHandle = {
+  /** 現在のフレームをPNGとして取得する（取得できない場合はnull） */
+  captureFrame: () => Promise<Blob | null>
+  /** ビートを知らせる（アバターが跳ね、エフェクトが光る） */
+  triggerBeat: (strength: number) => void
+}
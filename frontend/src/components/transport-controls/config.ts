@@ -0,0 +1,32 @@
+/**
+ * 再生操作の設定定数
+ */
+
+/**
+ * 再生操作の設定
+ */
+export const TRANSPORT_CONFIG = {
+  /** ← / → キーで移動する時間（ミリ秒） */
+  seekStepMs: 5000,
+  /**
+   * キーボード操作を受け付けない要素（入力欄・ボタン・audio要素など、キー操作を持つ要素とモーダル）
+   * 歌詞エディタのショートカットも同じ要素を除く
+   */
+  ignoredTargetSelector: [
+    'input',
+    'textarea',
+    'select',
+    'button',
+    'a[href]',
+    'audio',
+    'video',
+    '[contenteditable]:not([contenteditable="false"])',
+    '[role="slider"]',
+    '[role="radio"]',
+    '[role="button"]',
+    '[role="tab"]',
+    '[role="option"]',
+    '[role="combobox"]',
+    '[role="dialog"]',
+  ].join(', '),
+} as const
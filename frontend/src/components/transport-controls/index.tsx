@@ -0,0 +1,223 @@
+/**
+ * 再生操作コンポーネント
+ *
+ * @description
+ * - 再生・一時停止、最初から再生、シークバーでBGMを操作する
+ * - シークバーにはセクションの始まりを目印として表示する
+ * - 再生位置・操作は再生時計（PlaybackProvider）を使うため、歌詞・波形・舞台と同じ時間で動く
+ *
+ * @features
+ * - ドラッグ・クリックでシーク（ドラッグ中は表示だけ動かし、離した時にシーク）
+ * - 再生中はrequestAnimationFrameで滑らかに進む
+ * - キーボード操作（Space / K: 再生・一時停止、← / →: 5秒移動、Home: 最初から）
+ *   - 入力欄・ボタン・スライダーなど、フォーカス中の要素のキー操作は邪魔しない
+ *   - Alt・Ctrl・Cmd付きのキー入力はブラウザのショートカットに任せる
+ * - シークバーはフォーカスして操作できる（← / ↓・→ / ↑: 5秒移動、Home / End: 先頭・末尾）
+ *
+ * @props
+ * - markers: シークバーに表示する目印
+ */
+
+'use client'
+
+import {
+  HiOutlineArrowPath,
+  HiOutlinePause,
+  HiOutlinePlay,
+} from 'react-icons/hi2'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { TRANSPORT_CONFIG } from './config'
+import { isShortcutEvent } from './shortcuts'
+import styles from './style.module.css'
+import { IconButton } from '../buttons/icon-button'
+import { usePlayback, usePlaybackTime } from '../playback-provider/usePlayback'
+
+/** シークバーの目印 */
+export type TransportMarker = {
+  /** 位置（ミリ秒） */
+  timeMs: number
+  /** 表示名 */
+  label: string
+}
+
+type Props = {
+  /** シークバーに表示する目印 */
+  markers?: TransportMarker[]
+}
+
+/**
+ * ミリ秒を m:ss 形式にする
+ */
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.floor(Math.max(ms, 0) / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = String(totalSeconds % 60).padStart(2, '0')
+  return `${minutes}:${seconds}`
+}
+
+export const TransportControls = ({ markers = [] }: Props): React.ReactNode => {
+  const { state, durationMs, getCurrentTime, play, pause, seek, replay } =
+    usePlayback()
+  const currentMs = usePlaybackTime()
+  /** ドラッグ中の位置（ドラッグしていない場合はnull） */
+  const [scrubMs, setScrubMs] = useState<number | null>(null)
+  const barRef = useRef<HTMLDivElement>(null)
+  const isPlaying = state === 'playing'
+
+  const togglePlay = useCallback(() => {
+    if (isPlaying) {
+      pause()
+    } else {
+      play()
+    }
+  }, [isPlaying, play, pause])
+
+  /**
+   * キーボード操作
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // 修飾キー付きの入力・入力欄・ボタン・スライダー・モーダル内の操作は邪魔しない
+      if (!isShortcutEvent(event)) {
+        return
+      }
+      switch (event.key) {
+        case ' ':
+        case 'k':
+          togglePlay()
+          break
+        case 'ArrowLeft':
+          seek(getCurrentTime() - TRANSPORT_CONFIG.seekStepMs)
+          break
+        case 'ArrowRight':
+          seek(getCurrentTime() + TRANSPORT_CONFIG.seekStepMs)
+          break
+        case 'Home':
+          replay()
+          break
+        default:
+          return
+      }
+      event.preventDefault()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [togglePlay, seek, replay, getCurrentTime])
+
+  /**
+   * シークバーのキーボード操作
+   */
+  const handleBarKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (durationMs === 0) {
+      return
+    }
+    switch (event.key) {
+      case 'ArrowLeft':
+      case 'ArrowDown':
+        seek(getCurrentTime() - TRANSPORT_CONFIG.seekStepMs)
+        break
+      case 'ArrowRight':
+      case 'ArrowUp':
+        seek(getCurrentTime() + TRANSPORT_CONFIG.seekStepMs)
+        break
+      case 'Home':
+        seek(0)
+        break
+      case 'End':
+        seek(durationMs)
+        break
+      default:
+        return
+    }
+    event.preventDefault()
+  }
+
+  /**
+   * ポインターの位置をシークバー上の再生位置に変換する
+   */
+  const toTimeMs = (clientX: number): number => {
+    const rect = barRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0) {
+      return 0
+    }
+    const ratio = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1)
+    return ratio * durationMs
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (durationMs === 0) {
+      return
+    }
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setScrubMs(toTimeMs(event.clientX))
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (scrubMs !== null) {
+      setScrubMs(toTimeMs(event.clientX))
+    }
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (scrubMs === null) {
+      return
+    }
+    seek(toTimeMs(event.clientX))
+    setScrubMs(null)
+  }
+
+  const displayMs = scrubMs ?? currentMs
+  const progress = durationMs > 0 ? (displayMs / durationMs) * 100 : 0
+
+  return (
+    <div className={styles.transport}>
+      <IconButton
+        importance="primary"
+        icon={
+          isPlaying ? <HiOutlinePause size={24} /> : <HiOutlinePlay size={24} />
+        }
+        onClick={togglePlay}
+        size="lg"
+      />
+      <IconButton
+        importance="primary"
+        icon={<HiOutlineArrowPath size={22} />}
+        onClick={replay}
+        size="lg"
+      />
+      <span className={styles.time}>{formatTime(displayMs)}</span>
+      <div
+        ref={barRef}
+        className={styles.bar}
+        role="slider"
+        tabIndex={0}
+        aria-label="再生位置"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(durationMs / 1000)}
+        aria-valuenow={Math.round(displayMs / 1000)}
+        aria-valuetext={`${formatTime(displayMs)} / ${formatTime(durationMs)}`}
+        onKeyDown={handleBarKeyDown}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setScrubMs(null)}
+      >
+        <div className={styles.track}>
+          <div className={styles.fill} style={{ width: `${progress}%` }} />
+        </div>
+        {durationMs > 0 &&
+          markers.map((marker) => (
+            <span
+              key={`${marker.timeMs}-${marker.label}`}
+              className={styles.marker}
+              style={{ left: `${(marker.timeMs / durationMs) * 100}%` }}
+              title={`${formatTime(marker.timeMs)} ${marker.label}`}
+            />
+          ))}
+        <div className={styles.thumb} style={{ left: `${progress}%` }} />
+      </div>
+      <span className={styles.time}>{formatTime(durationMs)}</span>
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest'
+import { TRANSPORT_CONFIG } from './config'
+import { isShortcutEvent, type ShortcutEvent } from './shortcuts'
+
+/** キー入力（targetは既定でどの除外要素にも含まれない要素） */
+const keyEvent = (overrides: Partial<ShortcutEvent> = {}): ShortcutEvent => ({
+  altKey: false,
+  ctrlKey: false,
+  metaKey: false,
+  target: { closest: () => null } as unknown as EventTarget,
+  ...overrides,
+})
+
+describe('isShortcutEvent', () => {
+  it('修飾キーのないキー入力はショートカットとして扱う', () => {
+    expect(isShortcutEvent(keyEvent())).toBe(true)
+  })
+
+  it('Alt・Ctrl・Cmd付きのキー入力はブラウザに任せる', () => {
+    expect(isShortcutEvent(keyEvent({ altKey: true }))).toBe(false)
+    expect(isShortcutEvent(keyEvent({ ctrlKey: true }))).toBe(false)
+    expect(isShortcutEvent(keyEvent({ metaKey: true }))).toBe(false)
+  })
+
+  it('キー操作を持つ要素へのキー入力はその要素に任せる', () => {
+    const closest = vi.fn(() => ({}))
+    expect(
+      isShortcutEvent(
+        keyEvent({ target: { closest } as unknown as EventTarget }),
+      ),
+    ).toBe(false)
+    expect(closest).toHaveBeenCalledWith(TRANSPORT_CONFIG.ignoredTargetSelector)
+  })
+
+  it('フォーカスがない場合（document・window）のキー入力は対象にする', () => {
+    expect(isShortcutEvent(keyEvent({ target: null }))).toBe(true)
+    expect(isShortcutEvent(keyEvent({ target: {} as EventTarget }))).toBe(true)
+  })
+})
@@ -0,0 +1,33 @@
+/**
+ * キーボードショートカットの判定
+ *
+ * @description
+ * - 再生操作・歌詞エディタが、ページ全体で受け付けるキー入力かを判定する
+ */
+
+import { TRANSPORT_CONFIG } from './config'
+
+/** 判定に使うキー入力の情報 */
+export type ShortcutEvent = Pick<
+  KeyboardEvent,
+  'altKey' | 'ctrlKey' | 'metaKey' | 'target'
+>
+
+/**
+ * ページ全体のショートカットとして扱うキー入力か
+ * - 修飾キー（Alt・Ctrl・Cmd）付きの入力はブラウザ・OSのショートカットに任せる（Shiftは対象）
+ * - 入力欄・ボタンなどキー操作を持つ要素へのキー入力は、その要素に任せる
+ */
+export const isShortcutEvent = (event: ShortcutEvent): boolean => {
+  if (event.altKey || event.ctrlKey || event.metaKey) {
+    return false
+  }
+  const target = event.target
+  // document・windowへのキー入力（フォーカスがない場合）は対象にする
+  if (target === null || !('closest' in target)) {
+    return true
+  }
+  return (
+    (target as Element).closest(TRANSPORT_CONFIG.ignoredTargetSelector) === null
+  )
+}
@@ -10,6 +10,8 @@
  * @sections
  * - ANALYSER_CONFIG: AnalyserNodeの設定
  * - WAVEFORM_STYLE: 波形表示のスタイル
+ * - VISUALIZER_MODES: 表示の種類の一覧
+ * - VISUALIZER_CONFIG: 表示の種類ごとの設定
  * - ANIMATION_CONFIG: アニメーション設定
  * - PERFORMANCE_CONFIG: パフォーマンス設定
  *
@@ -19,7 +21,13 @@
  * - 60FPSでスムーズなアニメーション
  */
 
-import type { AnalyserSettings, WaveformStyle, AnimationConfig } from './types'
+import type {
+  AnalyserSettings,
+  WaveformStyle,
+  AnimationConfig,
+  VisualizerMode,
+  VisualizerPlacement,
+} from './types'
 
 /**
  * AnalyserNode用の最適化設定
@@ -66,6 +74,78 @@ export const WAVEFORM_STYLE: WaveformStyle = {
   maxBarHeight: 490,
 }
 
+/**
+ * 表示の種類の一覧（切り替えボタンの並び順）
+ */
+export const VISUALIZER_MODES: Record<
+  VisualizerMode,
+  { label: string; placement: VisualizerPlacement }
+> = {
+  /** バー: 画面下部に縦バーを並べる（従来の表示） */
+  bars: { label: 'バー', placement: 'ground' },
+  /** 波形: 画面下部に時間波形の線を描く */
+  oscilloscope: { label: '波形', placement: 'ground' },
+  /** 月: 夜空の月の周りにスペクトラムを円形に並べる */
+  radial: { label: '月', placement: 'sky' },
+  /** 星空: 周波数帯ごとに星の明るさを変える */
+  starfield: { label: '星空', placement: 'sky' },
+}
+
+/**
+ * 表示の種類かどうか（切り替えボタンなど、文字列で受け取った値の検証に使う）
+ */
+export const isVisualizerMode = (value: string): value is VisualizerMode =>
+  Object.hasOwn(VISUALIZER_MODES, value)
+
+/**
+ * 表示の種類ごとの設定
+ * 位置・大きさはCanvasの幅・高さに対する割合で指定する
+ */
+export const VISUALIZER_CONFIG = {
+  oscilloscope: {
+    /** 波形の中心線の高さ（上端からの割合、Canvasの下端は画面外にはみ出している） */
+    centerY: 0.6,
+    /** 振幅の最大値（高さに対する割合） */
+    amplitude: 0.3,
+    /** 線の太さ（px） */
+    lineWidth: 3,
+    /** 線の光のぼかし（px） */
+    glowBlur: 12,
+  },
+  radial: {
+    /**
+     * 月の中心（高さに対する割合）
+     * 夜空の画像は高さに合わせて左端から描画されるため、横位置も高さを基準にする
+     */
+    center: { x: 0.36, y: 0.24 },
+    /** バーを始める半径（高さに対する割合、月の輪郭の少し外側） */
+    innerRadius: 0.18,
+    /** バーの最大の長さ（高さに対する割合） */
+    maxBarLength: 0.12,
+    /** バーの数 */
+    barCount: 96,
+    /** バーの太さ（px） */
+    barWidth: 3,
+  },
+  starfield: {
+    /** 星の数 */
+    starCount: 80,
+    /** 星を配置する範囲（上端からの割合、街にかからない範囲） */
+    maxY: 0.45,
+    /** 周波数帯の数（低音から高音へ対数で分ける） */
+    bandCount: 8,
+    /** 星の配置を決める乱数の種 */
+    seed: 11,
+    /** 星の色（背景の星と同じ黄色） */
+    color: '#FCFFA8',
+    /** 無音の時の星の明るさ（0〜1） */
+    minAlpha: 0.1,
+    /** 星の大きさ（px、音が大きいほど大きくなる） */
+    minSize: 2,
+    maxSize: 6,
+  },
+} as const
+
 /**
  * アニメーション設定
  * 60FPSでスムーズな描画を実現
@@ -3,102 +3,112 @@
  *
  * @description
  * - 音楽再生中にリアルタイムで周波数スペクトラムを視覚化
- * - スペクトラムアナライザー形式で縦バーでの表示
+ * - 表示の種類（バー・オシロスコープ・円形・星空）を再生中に切り替えられる
  * - Canvas APIを使用した高性能な描画処理
  * - 画面下部に固定配置で表示
  *
  * @features
  * - リアルタイム周波数解析データの受信
  * - スペクトラムアナライザー形式の縦バー表示
+ * - 時間波形のオシロスコープ、月の周りの円形スペクトラム、周波数帯で光る星空
  * - 黄色系グラデーションでの描画
- * - レスポンシブ対応（画面幅に応じた表示調整）
+ * - レスポンシブ対応（親要素の大きさの変化に合わせてCanvasを作り直す）
  * - アニメーションフレームによるスムーズな更新
  * - 音楽停止時の波形フェードアウト
  *
  * @canvas_rendering
- * - 周波数データを縦バーとして描画
- * - バーの高さは周波数の強度に比例
+ * - 毎フレーム周波数データ・時間波形データを取得し、表示の種類の描画処理（renderers.ts）に渡す
  * - 黄色からオレンジのグラデーション適用
- * - バー間にスペースを設けて視認性向上
  *
  * @performance
  * - requestAnimationFrame使用で60FPS描画
  * - 不要な再描画を防ぐ最適化
- * - Canvas要素のサイズ最適化
+ * - Canvas要素のサイズ最適化（親要素の大きさが変わった時だけ作り直す）
  *
  * @props
  * - analyserNode: Web Audio APIのAnalyserNode（周波数データ取得用）
  * - isPlaying: 音楽再生状態（波形表示の制御用）
- * - height: 波形表示エリアの高さ（px）
+ * - height: 波形表示エリアの高さ（px、省略時は親要素の高さ）
+ * - mode: 表示の種類（デフォルト: bars）
  */
 
 'use client'
 
-import { useEffect, useRef } from 'react'
+import { useEffect, useMemo, useRef } from 'react'
 import styles from './style.module.css'
-import { WAVEFORM_STYLE, CANVAS_CONFIG } from './config'
+import { CANVAS_CONFIG } from './config'
+import { createVisualizerRenderer } from './renderers'
+import type { VisualizerMode } from './types'
 
 type WaveformVisualizerProps = {
   /** Web Audio APIのAnalyserNode（周波数データ取得に使用） */
   analyserNode: AnalyserNode | null
   /** 音楽の再生状態（trueの時のみ波形を表示） */
   isPlaying: boolean
-  /** 波形表示エリアの高さ（デフォルト: 100px） */
+  /** 波形表示エリアの高さ（省略時は親要素の高さ） */
   height?: number
+  /** 表示の種類（デフォルト: bars） */
+  mode?: VisualizerMode
+}
+
+/**
+ * Canvas要素の大きさを親要素に合わせる
+ * デバイスピクセル比に合わせて解像度を上げ、描画コンテキストを拡大する
+ *
+ * @param canvas Canvas要素
+ * @param height 表示する高さ（px、省略時は親要素の高さ）
+ */
+const resizeCanvas = (canvas: HTMLCanvasElement, height?: number): void => {
+  const parentElement = canvas.parentElement
+  const screenWidth = parentElement ? parentElement.offsetWidth : 1500
+  const canvasHeight =
+    height ?? parentElement?.offsetHeight ?? CANVAS_CONFIG.defaultHeight
+
+  // デバイスピクセル比を取得（上限設定）
+  const devicePixelRatio = Math.min(
+    window.devicePixelRatio || 1,
+    CANVAS_CONFIG.maxDevicePixelRatio,
+  )
+
+  // Canvas要素のサイズ設定（解像度を変えると描画コンテキストの状態も初期化される）
+  canvas.width = screenWidth * devicePixelRatio
+  canvas.height = canvasHeight * devicePixelRatio
+  canvas.style.width = `${screenWidth}px`
+  canvas.style.height = `${canvasHeight}px`
+
+  // 描画コンテキストの設定
+  const context = canvas.getContext('2d')
+  if (context) {
+    context.scale(devicePixelRatio, devicePixelRatio)
+    context.imageSmoothingEnabled = true
+  }
+
+  console.log('WaveformVisualizer: Canvas初期化完了', {
+    width: screenWidth,
+    height: canvasHeight,
+    devicePixelRatio: devicePixelRatio,
+  })
 }
 
 export const WaveformVisualizer = ({
   analyserNode,
   isPlaying,
-  height = 100,
+  height,
+  mode = 'bars',
 }: WaveformVisualizerProps): React.ReactNode => {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const animationIdRef = useRef<number | null>(null)
+  const renderer = useMemo(() => createVisualizerRenderer(mode), [mode])
+  // アニメーションループから常に最新の描画処理を呼べるようrefで持つ
+  const rendererRef = useRef(renderer)
 
-  /**
-   * Canvas要素の初期設定
-   * レスポンシブ対応のサイズ設定と描画コンテキストの準備
-   */
-  const initializeCanvas = (): void => {
-    const canvas = canvasRef.current
-    if (!canvas) {
-      console.error('WaveformVisualizer: Canvas要素が見つかりません')
-      return
-    }
-
-    // 親要素の横幅を取得（1200px固定）
-    const parentElement = canvas.parentElement
-    const screenWidth = parentElement ? parentElement.offsetWidth : 1500
-
-    // デバイスピクセル比を取得（上限設定）
-    const devicePixelRatio = Math.min(
-      window.devicePixelRatio || 1,
-      CANVAS_CONFIG.maxDevicePixelRatio,
-    )
-
-    // Canvas要素のサイズ設定
-    canvas.width = screenWidth * devicePixelRatio
-    canvas.height = height * devicePixelRatio
-    canvas.style.width = `${screenWidth}px`
-    canvas.style.height = `${height}px`
-
-    // 描画コンテキストの取得と設定
-    const context = canvas.getContext('2d')
-    if (context) {
-      context.scale(devicePixelRatio, devicePixelRatio)
-      context.imageSmoothingEnabled = true
-    }
-
-    console.log('WaveformVisualizer: Canvas初期化完了', {
-      width: screenWidth,
-      height: height,
-      devicePixelRatio: devicePixelRatio,
-    })
-  }
+  useEffect(() => {
+    rendererRef.current = renderer
+  }, [renderer])
 
   /**
    * スペクトラム描画処理
-   * AnalyserNodeから周波数データを取得してスペクトラムアナライザー形式で描画
+   * AnalyserNodeから周波数データ・時間波形データを取得し、表示の種類の描画処理で描画
    */
   const drawSpectrum = (): void => {
     const canvas = canvasRef.current
@@ -108,44 +118,22 @@ export const WaveformVisualizer = ({
       return
     }
 
-    // 周波数データを取得
+    // 周波数データ・時間波形データを取得
     const frequencyData = new Uint8Array(analyserNode.frequencyBinCount)
+    const timeDomainData = new Uint8Array(analyserNode.fftSize)
     analyserNode.getByteFrequencyData(frequencyData)
+    analyserNode.getByteTimeDomainData(timeDomainData)
 
     // Canvas背景をクリア
     context.clearRect(0, 0, canvas.width, canvas.height)
 
-    // バーの設定
-    const canvasWidth = canvas.offsetWidth
-    const barCount = Math.min(frequencyData.length / 2, 256) // 表示バー数を制限
-    const barWidth =
-      (canvasWidth - WAVEFORM_STYLE.barSpacing * (barCount - 1)) / barCount
-
-    // 黄色系グラデーションの作成
-    const gradient = context.createLinearGradient(0, height, 0, 0)
-    gradient.addColorStop(0, WAVEFORM_STYLE.barColor) // 黄色（底部）
-    gradient.addColorStop(1, WAVEFORM_STYLE.gradientEndColor) // オレンジ（頂部）
-
-    // 各バーを描画
-    for (let i = 0; i < barCount; i++) {
-      // データインデックス（低周波数を強調）
-      const dataIndex = Math.floor((i * (frequencyData.length / 4)) / barCount)
-      const amplitude = frequencyData[dataIndex] / 255
-
-      // バーの高さ計算（最小・最大高さを保証）
-      const barHeight = Math.max(
-        Math.min(amplitude * height, WAVEFORM_STYLE.maxBarHeight),
-        WAVEFORM_STYLE.minBarHeight,
-      )
-
-      // バーの位置計算
-      const x = i * (barWidth + WAVEFORM_STYLE.barSpacing)
-      const y = height - barHeight
-
-      // バーを描画
-      context.fillStyle = gradient
-      context.fillRect(x, y, barWidth, barHeight)
-    }
+    rendererRef.current(context, {
+      frequencyData,
+      timeDomainData,
+      timestamp: performance.now(),
+      width: canvas.offsetWidth,
+      height: canvas.offsetHeight,
+    })
   }
 
   /**
@@ -202,30 +190,31 @@ export const WaveformVisualizer = ({
   }
 
   /**
-   * リサイズハンドリング
-   * ウィンドウサイズ変更時のCanvas要素サイズ調整
+   * Canvasの大きさを親要素に合わせる
+   * ウィンドウのリサイズや表示の種類の切り替えで親要素の大きさが変わるたびに作り直す
+   * （ResizeObserverは監視を始めた時にも呼ばれるため、初期化も兼ねる）
    */
-  const handleResize = (): void => {
-    console.log('WaveformVisualizer: リサイズ処理開始')
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const parentElement = canvas?.parentElement
+    if (!canvas || !parentElement) {
+      console.error('WaveformVisualizer: Canvas要素が見つかりません')
+      return
+    }
 
-    // Canvas要素の再初期化
-    initializeCanvas()
+    const resizeObserver = new ResizeObserver(() =>
+      resizeCanvas(canvas, height),
+    )
+    resizeObserver.observe(parentElement)
 
-    // 描画の更新（再生中の場合）
-    if (isPlaying && analyserNode) {
-      drawSpectrum()
-    }
-  }
+    return () => resizeObserver.disconnect()
+  }, [height])
 
   /**
-   * コンポーネントマウント時の初期化処理
+   * コンポーネントのアンマウント時にアニメーションを停止する
    */
   useEffect(() => {
-    initializeCanvas()
-    window.addEventListener('resize', handleResize)
-
     return () => {
-      window.removeEventListener('resize', handleResize)
       stopAnimation()
     }
   }, [])
@@ -245,7 +234,7 @@ export const WaveformVisualizer = ({
     <canvas
       ref={canvasRef}
       className={styles.waveformCanvas}
-      style={{ height: `${height}px` }}
+      style={{ height: height === undefined ? '100%' : `${height}px` }}
     />
   )
 }
@@ -0,0 +1,193 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  isVisualizerMode,
+  VISUALIZER_CONFIG,
+  VISUALIZER_MODES,
+  WAVEFORM_STYLE,
+} from './config'
+import {
+  createBarSpectrumRenderer,
+  createOscilloscopeRenderer,
+  createRadialSpectrumRenderer,
+  createStarfieldRenderer,
+  createVisualizerRenderer,
+} from './renderers'
+import type { VisualizerFrame } from './types'
+
+/**
+ * 描画の呼び出しを記録する2Dコンテキストのモック
+ */
+const createMockContext = () => {
+  const gradient = { addColorStop: vi.fn() }
+  const context = {
+    fillStyle: '',
+    strokeStyle: '',
+    globalAlpha: 1,
+    lineWidth: 1,
+    lineJoin: 'miter',
+    lineCap: 'butt',
+    shadowColor: '',
+    shadowBlur: 0,
+    save: vi.fn(),
+    restore: vi.fn(),
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    stroke: vi.fn(),
+    fillRect: vi.fn(),
+    createLinearGradient: vi.fn(() => gradient),
+    createRadialGradient: vi.fn(() => gradient),
+  }
+  return {
+    context,
+    gradient,
+    asContext: context as unknown as CanvasRenderingContext2D,
+  }
+}
+
+/**
+ * 全てのビンが同じ値の1フレーム
+ */
+const createFrame = (
+  frequencyValue: number,
+  timeDomainValue = 128,
+): VisualizerFrame => ({
+  frequencyData: new Uint8Array(1024).fill(frequencyValue),
+  timeDomainData: new Uint8Array(2048).fill(timeDomainValue),
+  timestamp: 0,
+  width: 1500,
+  height: 500,
+})
+
+describe('createBarSpectrumRenderer', () => {
+  it('バーを幅いっぱいに並べ、高さを最小・最大の範囲に収める', () => {
+    const loud = createMockContext()
+    const silent = createMockContext()
+    const render = createBarSpectrumRenderer()
+
+    render(loud.asContext, createFrame(255))
+    render(silent.asContext, createFrame(0))
+
+    const loudBars = loud.context.fillRect.mock.calls
+    expect(loudBars).toHaveLength(256)
+    expect(loudBars[0][0]).toBe(0)
+    const [x, , barWidth] = loudBars.at(-1) ?? []
+    expect(x + barWidth).toBeCloseTo(1500)
+    expect(
+      loudBars.every(([, , , h]) => h === WAVEFORM_STYLE.maxBarHeight),
+    ).toBe(true)
+    expect(
+      silent.context.fillRect.mock.calls.every(
+        ([, y, , h]) => h === WAVEFORM_STYLE.minBarHeight && y === 500 - h,
+      ),
+    ).toBe(true)
+  })
+})
+
+describe('createOscilloscopeRenderer', () => {
+  it('無音の時は中心線の高さに水平な線を幅いっぱいに描く', () => {
+    const { context, asContext } = createMockContext()
+    const { centerY } = VISUALIZER_CONFIG.oscilloscope
+
+    createOscilloscopeRenderer()(asContext, createFrame(0, 128))
+
+    expect(context.moveTo).toHaveBeenCalledWith(0, 500 * centerY)
+    expect(context.lineTo).toHaveBeenCalledTimes(2047)
+    expect(
+      context.lineTo.mock.calls.every(([, y]) => y === 500 * centerY),
+    ).toBe(true)
+    expect(context.lineTo.mock.calls.at(-1)?.[0]).toBeCloseTo(1500)
+    expect(context.stroke).toHaveBeenCalledTimes(1)
+    expect(context.save).toHaveBeenCalledTimes(
+      context.restore.mock.calls.length,
+    )
+  })
+
+  it('振幅は設定した最大値を超えない', () => {
+    const { context, asContext } = createMockContext()
+    const { centerY, amplitude } = VISUALIZER_CONFIG.oscilloscope
+
+    createOscilloscopeRenderer()(asContext, createFrame(0, 0))
+
+    expect(context.lineTo.mock.calls[0][1]).toBeCloseTo(
+      500 * centerY + 500 * amplitude,
+    )
+  })
+})
+
+describe('createRadialSpectrumRenderer', () => {
+  it('月の周りにバーを並べ、左右対称に同じ長さにする', () => {
+    const { context, asContext } = createMockContext()
+    const { barCount, center } = VISUALIZER_CONFIG.radial
+    const frame = createFrame(0)
+    // 低い周波数ほど大きい
+    frame.frequencyData.forEach((_, i, data) => {
+      data[i] = Math.max(255 - i, 0)
+    })
+
+    createRadialSpectrumRenderer()(asContext, frame)
+
+    expect(context.moveTo).toHaveBeenCalledTimes(barCount)
+    expect(context.lineTo).toHaveBeenCalledTimes(barCount)
+    const centerX = 500 * center.x
+    const centerY = 500 * center.y
+    const lengths = context.lineTo.mock.calls.map(([x, y]) =>
+      Math.hypot(x - centerX, y - centerY),
+    )
+    for (let i = 0; i < barCount / 2; i++) {
+      expect(lengths[i]).toBeCloseTo(lengths[barCount - 1 - i])
+    }
+    // 上端（最も低い周波数）のバーが最も長い
+    expect(Math.max(...lengths)).toBeCloseTo(lengths[0])
+  })
+})
+
+describe('createStarfieldRenderer', () => {
+  it('同じ種では同じ位置に星を描き、音が大きいほど星を大きく明るくする', () => {
+    const quiet = createMockContext()
+    const loud = createMockContext()
+    const { starCount, minSize, maxSize, minAlpha } =
+      VISUALIZER_CONFIG.starfield
+
+    createStarfieldRenderer(3)(quiet.asContext, createFrame(0))
+    createStarfieldRenderer(3)(loud.asContext, createFrame(255))
+
+    const quietStars = quiet.context.fillRect.mock.calls
+    const loudStars = loud.context.fillRect.mock.calls
+    expect(quietStars).toHaveLength(starCount)
+    expect(quietStars.every(([, , size]) => size === minSize)).toBe(true)
+    expect(loudStars.every(([, , size]) => size === maxSize)).toBe(true)
+    // 大きさの差の分だけずれるが、星の中心は同じ
+    quietStars.forEach(([x, y], index) => {
+      const [loudX, loudY] = loudStars[index]
+      expect(
+        Math.abs(x + minSize / 2 - (loudX + maxSize / 2)),
+      ).toBeLessThanOrEqual(1)
+      expect(
+        Math.abs(y + minSize / 2 - (loudY + maxSize / 2)),
+      ).toBeLessThanOrEqual(1)
+    })
+    expect(quiet.context.globalAlpha).toBeCloseTo(minAlpha)
+    expect(loud.context.globalAlpha).toBeCloseTo(1)
+  })
+})
+
+describe('isVisualizerMode', () => {
+  it('表示の種類の名前だけを受け付ける', () => {
+    expect(isVisualizerMode('radial')).toBe(true)
+    expect(isVisualizerMode('unknown')).toBe(false)
+    expect(isVisualizerMode('toString')).toBe(false)
+  })
+})
+
+describe('createVisualizerRenderer', () => {
+  it('全ての表示の種類の描画処理を作成できる', () => {
+    for (const mode of Object.keys(VISUALIZER_MODES).filter(isVisualizerMode)) {
+      const { context, asContext } = createMockContext()
+      createVisualizerRenderer(mode)(asContext, createFrame(128))
+      expect(
+        context.fillRect.mock.calls.length + context.stroke.mock.calls.length,
+      ).toBeGreaterThan(0)
+    }
+  })
+})
@@ -0,0 +1,244 @@
+/**
+ * 波形表示の描画処理
+ *
+ * @description
+ * - 表示の種類（VisualizerMode）ごとの描画処理（VisualizerRenderer）を提供する
+ * - どの描画処理も、クリア済みのCanvasに周波数データ・時間波形データから1フレームを描く
+ * - 色はWAVEFORM_STYLE（パレット指定時はパレット）に揃える
+ *
+ * @renderers
+ * - バー: 低い周波数を中心に縦バーを並べる
+ * - オシロスコープ: 時間波形を1本の線で描く
+ * - 円形: 月の周りにスペクトラムを放射状に並べる
+ * - 星空: 星ごとに割り当てた周波数帯の強さで明るさ・大きさを変える
+ */
+
+import { VISUALIZER_CONFIG, WAVEFORM_STYLE } from './config'
+import type { VisualizerMode, VisualizerRenderer } from './types'
+
+/**
+ * 波形の色（パレット指定時はパレットの色、なければ基本色から終了色）
+ */
+const getColors = (): readonly string[] => {
+  const paletteColors = WAVEFORM_STYLE.palette?.colors ?? []
+  return paletteColors.length > 1
+    ? paletteColors
+    : [WAVEFORM_STYLE.barColor, WAVEFORM_STYLE.gradientEndColor]
+}
+
+/**
+ * 色を等間隔に並べたグラデーションを作成する
+ */
+const addColorStops = (gradient: CanvasGradient): CanvasGradient => {
+  const colors = getColors()
+  colors.forEach((color, index) => {
+    gradient.addColorStop(index / (colors.length - 1), color)
+  })
+  return gradient
+}
+
+/**
+ * 乱数の種から同じ並びの乱数を返す関数を作る
+ * 描画のたびに星の位置が変わらないようにする
+ */
+const createRandom = (seed: number) => {
+  let value = seed
+  return () => {
+    value = (value * 9301 + 49297) % 233280
+    return value / 233280
+  }
+}
+
+/**
+ * 縦バーのスペクトラムを作成する
+ * 低い周波数を強調するため、周波数データの下位1/4をバーに割り当てる
+ */
+export const createBarSpectrumRenderer = (): VisualizerRenderer => {
+  return (context, { frequencyData, width, height }) => {
+    const barCount = Math.min(frequencyData.length / 2, 256) // 表示バー数を制限
+    const barWidth =
+      (width - WAVEFORM_STYLE.barSpacing * (barCount - 1)) / barCount
+
+    // 底部から頂部へのグラデーション
+    context.fillStyle = addColorStops(
+      context.createLinearGradient(0, height, 0, 0),
+    )
+
+    for (let i = 0; i < barCount; i++) {
+      // データインデックス（低周波数を強調）
+      const dataIndex = Math.floor((i * (frequencyData.length / 4)) / barCount)
+      const amplitude = frequencyData[dataIndex] / 255
+
+      // バーの高さ計算（最小・最大高さを保証）
+      const barHeight = Math.max(
+        Math.min(amplitude * height, WAVEFORM_STYLE.maxBarHeight),
+        WAVEFORM_STYLE.minBarHeight,
+      )
+
+      const x = i * (barWidth + WAVEFORM_STYLE.barSpacing)
+      context.fillRect(x, height - barHeight, barWidth, barHeight)
+    }
+  }
+}
+
+/**
+ * 時間波形を線で描くオシロスコープを作成する
+ */
+export const createOscilloscopeRenderer = (): VisualizerRenderer => {
+  const { centerY, amplitude, lineWidth, glowBlur } =
+    VISUALIZER_CONFIG.oscilloscope
+
+  return (context, { timeDomainData, width, height }) => {
+    const baseY = height * centerY
+    const maxOffset = height * amplitude
+    const step = width / (timeDomainData.length - 1)
+
+    context.save()
+    context.lineWidth = lineWidth
+    context.lineJoin = 'round'
+    context.strokeStyle = addColorStops(
+      context.createLinearGradient(0, 0, width, 0),
+    )
+    context.shadowColor = WAVEFORM_STYLE.gradientEndColor
+    context.shadowBlur = glowBlur
+
+    context.beginPath()
+    timeDomainData.forEach((value, index) => {
+      // 128が無音（中心線）
+      const y = baseY - ((value - 128) / 128) * maxOffset
+      if (index === 0) {
+        context.moveTo(0, y)
+      } else {
+        context.lineTo(index * step, y)
+      }
+    })
+    context.stroke()
+    context.restore()
+  }
+}
+
+/**
+ * 月の周りにスペクトラムを放射状に並べる円形の表示を作成する
+ * 左右対称になるよう、上から時計回り・反時計回りに同じ周波数を並べる
+ */
+export const createRadialSpectrumRenderer = (): VisualizerRenderer => {
+  const { center, innerRadius, maxBarLength, barCount, barWidth } =
+    VISUALIZER_CONFIG.radial
+
+  return (context, { frequencyData, height }) => {
+    const centerX = height * center.x
+    const centerY = height * center.y
+    const radius = height * innerRadius
+    const maxLength = height * maxBarLength
+    const halfCount = barCount / 2
+
+    context.save()
+    context.lineWidth = barWidth
+    context.lineCap = 'round'
+    context.strokeStyle = addColorStops(
+      context.createRadialGradient(
+        centerX,
+        centerY,
+        radius,
+        centerX,
+        centerY,
+        radius + maxLength,
+      ),
+    )
+
+    context.beginPath()
+    for (let i = 0; i < barCount; i++) {
+      // 上端から左右に向かって低い周波数から高い周波数へ並べる
+      const bandIndex = i < halfCount ? i : barCount - 1 - i
+      const dataIndex = Math.floor(
+        (bandIndex * (frequencyData.length / 4)) / halfCount,
+      )
+      const length = Math.max(
+        (frequencyData[dataIndex] / 255) * maxLength,
+        WAVEFORM_STYLE.minBarHeight,
+      )
+      const angle = (i / barCount) * Math.PI * 2 - Math.PI / 2
+      const cos = Math.cos(angle)
+      const sin = Math.sin(angle)
+      context.moveTo(centerX + cos * radius, centerY + sin * radius)
+      context.lineTo(
+        centerX + cos * (radius + length),
+        centerY + sin * (radius + length),
+      )
+    }
+    context.stroke()
+    context.restore()
+  }
+}
+
+/**
+ * 周波数帯ごとに星の明るさが変わる星空を作成する
+ *
+ * @param seed 星の配置を決める乱数の種
+ */
+export const createStarfieldRenderer = (
+  seed: number = VISUALIZER_CONFIG.starfield.seed,
+): VisualizerRenderer => {
+  const { starCount, maxY, bandCount, color, minAlpha, minSize, maxSize } =
+    VISUALIZER_CONFIG.starfield
+  const random = createRandom(seed)
+  const stars = Array.from({ length: starCount }, () => ({
+    // 位置はCanvasに対する割合
+    x: random(),
+    y: random() * maxY,
+    band: Math.floor(random() * bandCount),
+  }))
+
+  return (context, { frequencyData, width, height }) => {
+    // 周波数データの前半を、低音ほど細かくなるよう対数で周波数帯に分ける
+    const binCount = frequencyData.length / 2
+    const levels = Array.from({ length: bandCount }, (_, band) => {
+      const start = Math.floor(binCount ** (band / bandCount))
+      const end = Math.max(
+        Math.floor(binCount ** ((band + 1) / bandCount)),
+        start + 1,
+      )
+      let sum = 0
+      for (let i = start; i < end; i++) {
+        sum += frequencyData[i]
+      }
+      return sum / (end - start) / 255
+    })
+
+    context.save()
+    context.fillStyle = color
+    stars.forEach((star) => {
+      const level = levels[star.band]
+      const size = Math.round(minSize + (maxSize - minSize) * level)
+      context.globalAlpha = minAlpha + (1 - minAlpha) * level
+      // ドット絵に合わせて整数ピクセルの四角で描く
+      context.fillRect(
+        Math.round(star.x * width - size / 2),
+        Math.round(star.y * height - size / 2),
+        size,
+        size,
+      )
+    })
+    context.restore()
+  }
+}
+
+/**
+ * 表示の種類の描画処理を作成する
+ *
+ * @param mode 表示の種類
+ */
+export const createVisualizerRenderer = (
+  mode: VisualizerMode,
+): VisualizerRenderer => {
+  switch (mode) {
+    case 'bars':
+      return createBarSpectrumRenderer()
+    case 'oscilloscope':
+      return createOscilloscopeRenderer()
+    case 'radial':
+      return createRadialSpectrumRenderer()
+    case 'starfield':
+      return createStarfieldRenderer()
+  }
+}
@@ -13,6 +13,8 @@
  * - FrequencyData: 周波数データの型
  *
  * @visualization_types
+ * - VisualizerMode: 表示の種類（バー・オシロスコープ・円形・星空）
+ * - VisualizerRenderer: 表示の種類ごとの描画処理
  * - WaveformStyle: 波形表示スタイル設定
  * - SpectrumBarConfig: スペクトラムバーの設定
  * - AnimationConfig: アニメーション設定
@@ -22,6 +24,8 @@
  * - InitializationError: 初期化エラーの詳細
  */
 
+import type { Palette } from '@/lib/image/types'
+
 /**
  * AudioContextの状態を管理する型
  */
@@ -62,6 +66,41 @@ export type FrequencyData = {
   timestamp: number
 }
 
+/**
+ * 表示の種類
+ * - bars: 縦バーのスペクトラム
+ * - oscilloscope: 時間波形の線
+ * - radial: 月の周りに並べた円形のスペクトラム
+ * - starfield: 周波数帯ごとに明るさが変わる星空
+ */
+export type VisualizerMode = 'bars' | 'oscilloscope' | 'radial' | 'starfield'
+
+/**
+ * 表示を重ねる場所
+ * - ground: 画面下部（地面の上）
+ * - sky: 画面全体（夜空の月・星に合わせて描画する）
+ */
+export type VisualizerPlacement = 'ground' | 'sky'
+
+/**
+ * 1フレームの描画に渡す情報
+ */
+export type VisualizerFrame = FrequencyData & {
+  /** Canvasの幅（CSS px） */
+  width: number
+  /** Canvasの高さ（CSS px） */
+  height: number
+}
+
+/**
+ * 表示の種類ごとの描画処理
+ * クリア済みのCanvasに1フレーム分を描画する
+ */
+export type VisualizerRenderer = (
+  context: CanvasRenderingContext2D,
+  frame: VisualizerFrame,
+) => void
+
 /**
  * 波形表示スタイル設定
  */
@@ -72,6 +111,8 @@ export type WaveformStyle = {
   barColor: string
   /** グラデーション終了色 */
   gradientEndColor: string
+  /** グラデーションに使うパレット（指定時はbarColor・gradientEndColorより優先し、底部から頂部へ色を並べる） */
+  palette?: Palette
   /** バー間のスペース（px） */
   barSpacing: number
   /** バーの最小高さ（px） */
@@ -5,12 +5,13 @@
  * - Web Audio APIを使用して音声の周波数解析を実行
  * - HTMLAudioElementからAudioContextとAnalyserNodeを作成
  * - スペクトラムアナライザー用の周波数データを提供
+ * - 音量調整用のGainNodeを提供（AnalyserNodeの後ろに置き、音量に関わらず解析できる）
  * - ブラウザの自動再生ポリシーに準拠した実装
  *
  * @features
  * - AudioContextの作成と管理
  * - AnalyserNodeの設定と制御
- * - 音声ソースとの接続処理
+ * - 音声ソースとの接続処理（source -> analyser -> gain -> destination）
  * - リソースの適切なクリーンアップ
  * - エラーハンドリングと復旧処理
  *
@@ -27,6 +28,7 @@
  *
  * @return_values
  * - analyserNode: AnalyserNode | null - 周波数解析用ノード
+ * - gainNode: GainNode | null - 音量調整用ノード
  * - isInitialized: boolean - 初期化完了状態
  * - error: string | null - エラーメッセージ
  * - initializeAnalyser: 初期化関数
@@ -51,6 +53,8 @@ import { ANALYSER_CONFIG } from './config'
 type AudioAnalyserState = {
   /** Web Audio APIのAnalyserNode（周波数解析用） */
   analyserNode: AnalyserNode | null
+  /** Web Audio APIのGainNode（音量調整用） */
+  gainNode: GainNode | null
   /** AudioContextの初期化完了状態 */
   isInitialized: boolean
   /** エラーメッセージ（エラー発生時のみ） */
@@ -67,6 +71,7 @@ type AudioAnalyserHook = AudioAnalyserState & {
 export const useAudioAnalyser = (): AudioAnalyserHook => {
   const [state, setState] = useState<AudioAnalyserState>({
     analyserNode: null,
+    gainNode: null,
     isInitialized: false,
     error: null,
   })
@@ -151,12 +156,14 @@ export const useAudioAnalyser = (): AudioAnalyserHook => {
    * @param audioElement 音声要素
    * @param audioContext AudioContext
    * @param analyserNode AnalyserNode
+   * @param gainNode GainNode
    * @returns MediaElementAudioSourceNode 作成されたソースノード
    */
   const connectAudioSource = (
     audioElement: HTMLAudioElement,
     audioContext: AudioContext,
     analyserNode: AnalyserNode,
+    gainNode: GainNode,
   ): MediaElementAudioSourceNode => {
     try {
       // 重複接続の防止チェック
@@ -167,9 +174,10 @@ export const useAudioAnalyser = (): AudioAnalyserHook => {
       // MediaElementAudioSourceNodeの作成
       const sourceNode = audioContext.createMediaElementSource(audioElement)
 
-      // source -> analyser -> destination の接続
+      // source -> analyser -> gain -> destination の接続
       sourceNode.connect(analyserNode)
-      analyserNode.connect(audioContext.destination)
+      analyserNode.connect(gainNode)
+      gainNode.connect(audioContext.destination)
 
       // 参照を保存
       sourceNodeRef.current = sourceNode
@@ -203,12 +211,16 @@ export const useAudioAnalyser = (): AudioAnalyserHook => {
         // AnalyserNodeの作成と設定
         const analyserNode = createAnalyserNode(audioContext)
 
+        // 音量調整用のGainNodeの作成
+        const gainNode = audioContext.createGain()
+
         // 音声ソースとの接続
-        connectAudioSource(audioElement, audioContext, analyserNode)
+        connectAudioSource(audioElement, audioContext, analyserNode, gainNode)
 
         // 状態の更新（初期化完了）
         setState({
           analyserNode,
+          gainNode,
           isInitialized: true,
           error: null,
         })
@@ -218,6 +230,7 @@ export const useAudioAnalyser = (): AudioAnalyserHook => {
         // エラー状態の設定
         setState({
           analyserNode: null,
+          gainNode: null,
           isInitialized: false,
           error:
             error instanceof Error
@@ -261,6 +274,7 @@ export const useAudioAnalyser = (): AudioAnalyserHook => {
     // 状態のリセット
     setState({
       analyserNode: null,
+      gainNode: null,
       isInitialized: false,
       error: null,
     })
@@ -0,0 +1,40 @@
+/**
+ * 認証のFirebase操作
+ *
+ * @description
+ * - 初回訪問時は匿名ユーザーとしてサインインする
+ * - 匿名ユーザーは後からGoogleアカウントなどにリンクして引き継げる（linkWithPopup）
+ */
+
+import {
+  onAuthStateChanged,
+  signInAnonymously,
+  type Unsubscribe,
+  type User,
+} from 'firebase/auth'
+
+import { auth } from '@/lib/firebase'
+
+/**
+ * 匿名ユーザーとしてサインインする
+ *
+ * @throws Error サインインに失敗した場合（メッセージはユーザー向け）
+ */
+export const signInAsGuest = async (): Promise<User> => {
+  try {
+    const credential = await signInAnonymously(auth)
+    return credential.user
+  } catch (error) {
+    console.error('AuthOperations: 匿名サインインエラー', error)
+    throw new Error('ログインに失敗しました')
+  }
+}
+
+/**
+ * ログイン状態の変化を購読する
+ *
+ * @returns 購読を解除する関数
+ */
+export const subscribeAuthState = (
+  callback: (user: User | null) => void,
+): Unsubscribe => onAuthStateChanged(auth, callback)
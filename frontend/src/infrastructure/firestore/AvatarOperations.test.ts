@@ -0,0 +1,79 @@
+import { StorageError, StorageErrorCode } from 'firebase/storage'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { deleteAvatar } from './AvatarOperations'
+import type { OwnedAvatar } from './types'
+
+const { batch, deleteObject } = vi.hoisted(() => ({
+  batch: {
+    delete: vi.fn(),
+    update: vi.fn(),
+    commit: vi.fn(),
+  },
+  deleteObject: vi.fn(),
+}))
+
+vi.mock('@/lib/firebase', () => ({ db: {}, storage: {}, serverTimestamp: {} }))
+
+vi.mock('firebase/firestore', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('firebase/firestore')>()),
+  doc: (_db: unknown, ...segments: string[]) => segments.join('/'),
+  writeBatch: () => batch,
+}))
+
+vi.mock('firebase/storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('firebase/storage')>()),
+  ref: (_storage: unknown, path: string) => path,
+  deleteObject,
+}))
+
+/** 削除するアバター */
+const avatar: OwnedAvatar = {
+  id: 'a',
+  url: 'https://example.com/a.png',
+  groundAnchor: 1,
+  choreography: 'float',
+  path: 'users/alice/avatars/a.png',
+  createdAt: null,
+}
+
+describe('deleteAvatar', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    batch.commit.mockResolvedValue(undefined)
+  })
+
+  it('画像を削除してから、アバターの削除と同じバッチで枠を解放する', async () => {
+    deleteObject.mockResolvedValue(undefined)
+    await deleteAvatar('alice', avatar)
+
+    expect(deleteObject).toHaveBeenCalledWith('users/alice/avatars/a.png')
+    expect(batch.delete).toHaveBeenCalledWith('users/alice/avatars/a')
+    expect(batch.update).toHaveBeenCalledWith('users/alice', expect.anything())
+    expect(batch.commit).toHaveBeenCalledTimes(1)
+    expect(deleteObject.mock.invocationCallOrder[0]).toBeLessThan(
+      batch.commit.mock.invocationCallOrder[0],
+    )
+  })
+
+  it('画像が削除済みの場合も枠を解放する（削除のやり直し）', async () => {
+    deleteObject.mockRejectedValue(
+      new StorageError(StorageErrorCode.OBJECT_NOT_FOUND, 'not found'),
+    )
+    await deleteAvatar('alice', avatar)
+
+    expect(batch.delete).toHaveBeenCalledWith('users/alice/avatars/a')
+    expect(batch.commit).toHaveBeenCalledTimes(1)
+  })
+
+  it('画像の削除に失敗した場合は枠を解放しない', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    deleteObject.mockRejectedValue(
+      new StorageError(StorageErrorCode.UNAUTHORIZED, 'unauthorized'),
+    )
+
+    await expect(deleteAvatar('alice', avatar)).rejects.toThrow(
+      'アバターの削除に失敗しました',
+    )
+    expect(batch.commit).not.toHaveBeenCalled()
+  })
+})
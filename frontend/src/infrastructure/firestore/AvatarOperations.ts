@@ -0,0 +1,256 @@
+/**
+ * ユーザーのアバターのFirestore操作
+ *
+ * @description
+ * - アップロードしたアバターを users/{uid}/avatars に保存し、「マイアバター」として一覧できる
+ * - アップロード前に users/{uid}.avatarIds へIDを登録して枠を確保する
+ *   （1人3枚までの上限はこの枠でセキュリティルールから検証する）
+ * - 枠はアバターの削除と同じバッチでのみ解放できる
+ * - ローカルストレージ（IndexedDB）で動かしている場合はlocalStorageに保存する
+ *
+ * @usage_example
+ * ```typescript
+ * const [id] = await reserveAvatarSlots(uid, 1)
+ * const url = await uploadImage(getAvatarPath(uid, id), blob)
+ * await saveAvatar(uid, { id, url, groundAnchor, choreography, path: getAvatarPath(uid, id) })
+ * ```
+ */
+
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  setDoc,
+  Timestamp,
+  writeBatch,
+  type DocumentData,
+} from 'firebase/firestore'
+import { v4 as uuidv4 } from 'uuid'
+
+import type { OwnedAvatar } from './types'
+import { MAX_AVATAR_COUNT } from '@/app/avatars/types'
+import { DEFAULT_CHOREOGRAPHY } from '@/components/scene-renderer/config'
+import { STORAGE_DRIVER } from '@/infrastructure/storage/config'
+import { getLocalFileUrl } from '@/infrastructure/storage/LocalStorageAdapter'
+import { deleteFile } from '@/infrastructure/storage/UploadOperations'
+import { db, serverTimestamp } from '@/lib/firebase'
+
+/** コレクション名 */
+const USERS_COLLECTION = 'users'
+const AVATARS_COLLECTION = 'avatars'
+
+/** ローカル保存時のlocalStorageのキー */
+const LOCAL_AVATARS_KEY = 'twinkle-night:avatars'
+
+/** 保存時に渡すアバター */
+type SaveAvatarInput = Omit<OwnedAvatar, 'createdAt'>
+
+/**
+ * アバター画像のStorage上のパスを生成する
+ * 正規化後の画像は常にPNG
+ */
+export const getAvatarPath = (uid: string, avatarId: string): string =>
+  `${USERS_COLLECTION}/${uid}/${AVATARS_COLLECTION}/${avatarId}.png`
+
+/**
+ * localStorageに保存したアバターを読み込む
+ */
+const readLocalAvatars = (): SaveAvatarInput[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_AVATARS_KEY) ?? '[]')
+  } catch {
+    return []
+  }
+}
+
+/**
+ * localStorageにアバターを保存する
+ */
+const writeLocalAvatars = (avatars: SaveAvatarInput[]) => {
+  localStorage.setItem(LOCAL_AVATARS_KEY, JSON.stringify(avatars))
+}
+
+/**
+ * Firestoreのデータをアバターに変換する
+ */
+const toOwnedAvatar = (id: string, data: DocumentData): OwnedAvatar => ({
+  id,
+  url: data.url,
+  groundAnchor: data.groundAnchor ?? 1,
+  choreography: data.choreography ?? DEFAULT_CHOREOGRAPHY,
+  path: data.path,
+  createdAt:
+    data.createdAt instanceof Timestamp ? data.createdAt.toDate() : null,
+})
+
+/**
+ * ユーザーのアバターを作成日時順に取得する
+ *
+ * @throws Error 取得に失敗した場合（メッセージはユーザー向け）
+ */
+export const fetchMyAvatars = async (uid: string): Promise<OwnedAvatar[]> => {
+  try {
+    if (STORAGE_DRIVER === 'local') {
+      // オブジェクトURLはページを閉じると無効になるため取り直す
+      const avatars = await Promise.all(
+        readLocalAvatars().map(async (avatar) => {
+          const url = await getLocalFileUrl(avatar.path)
+          return url ? { ...avatar, url, createdAt: null } : null
+        }),
+      )
+      return avatars.filter((avatar) => avatar !== null)
+    }
+
+    const snapshot = await getDocs(
+      query(
+        collection(db, USERS_COLLECTION, uid, AVATARS_COLLECTION),
+        orderBy('createdAt', 'asc'),
+      ),
+    )
+    return snapshot.docs.map((avatarDoc) =>
+      toOwnedAvatar(avatarDoc.id, avatarDoc.data()),
+    )
+  } catch (error) {
+    console.error('AvatarOperations: アバターの取得エラー', error)
+    throw new Error('アバターの取得に失敗しました')
+  }
+}
+
+/**
+ * アップロード前にアバターの枠を確保する
+ *
+ * @description
+ * - 枠は追加しかできず、アバターを削除した時にだけ解放される（セキュリティルールで検証する）
+ * - 確保したままアバターを保存しなかった枠は、新しい枠より先に使い回す
+ *
+ * @param count 確保する枠の数
+ * @param inUseIds 確保済みで使用中の枠（アップロードをやり直している画像の枠。使い回さない）
+ * @returns 確保した枠のID（アップロード先のパス・アバターのIDに使う）
+ * @throws Error 上限を超える場合や保存に失敗した場合（メッセージはユーザー向け）
+ */
+export const reserveAvatarSlots = async (
+  uid: string,
+  count: number,
+  inUseIds: string[] = [],
+): Promise<string[]> => {
+  if (STORAGE_DRIVER === 'local') {
+    // 保存済みのアバターと使用中の枠（保存済みのものを含む）を重複なく数える
+    const usedIds = new Set([
+      ...readLocalAvatars().map(({ id }) => id),
+      ...inUseIds,
+    ])
+    if (usedIds.size + count > MAX_AVATAR_COUNT) {
+      throw new Error(`アバターは${MAX_AVATAR_COUNT}枚までです`)
+    }
+    return Array.from({ length: count }, () => uuidv4())
+  }
+  if (count === 0) {
+    return []
+  }
+
+  const userRef = doc(db, USERS_COLLECTION, uid)
+  const [userSnapshot, avatarsSnapshot] = await Promise.all([
+    getDoc(userRef),
+    getDocs(collection(db, USERS_COLLECTION, uid, AVATARS_COLLECTION)),
+  ]).catch((error) => {
+    console.error('AvatarOperations: ユーザーの取得エラー', error)
+    throw new Error('アップロードの準備に失敗しました')
+  })
+  const reservedIds: string[] = userSnapshot.data()?.avatarIds ?? []
+  const savedIds = new Set(avatarsSnapshot.docs.map(({ id }) => id))
+  const reusableIds = reservedIds
+    .filter((id) => !savedIds.has(id) && !inUseIds.includes(id))
+    .slice(0, count)
+  const newIds = Array.from({ length: count - reusableIds.length }, () =>
+    uuidv4(),
+  )
+  if (reservedIds.length + newIds.length > MAX_AVATAR_COUNT) {
+    throw new Error(`アバターは${MAX_AVATAR_COUNT}枚までです`)
+  }
+
+  if (newIds.length > 0) {
+    try {
+      await setDoc(
+        userRef,
+        { avatarIds: arrayUnion(...newIds) },
+        { merge: true },
+      )
+    } catch (error) {
+      console.error('AvatarOperations: 枠の確保エラー', error)
+      throw new Error('アップロードの準備に失敗しました')
+    }
+  }
+  return [...reusableIds, ...newIds]
+}
+
+/**
+ * アップロードしたアバターを保存する
+ *
+ * @throws Error 保存に失敗した場合（メッセージはユーザー向け）
+ */
+export const saveAvatar = async (
+  uid: string,
+  avatar: SaveAvatarInput,
+): Promise<void> => {
+  try {
+    if (STORAGE_DRIVER === 'local') {
+      writeLocalAvatars([
+        ...readLocalAvatars().filter(({ id }) => id !== avatar.id),
+        avatar,
+      ])
+      return
+    }
+
+    await setDoc(
+      doc(db, USERS_COLLECTION, uid, AVATARS_COLLECTION, avatar.id),
+      {
+        url: avatar.url,
+        groundAnchor: avatar.groundAnchor,
+        choreography: avatar.choreography,
+        path: avatar.path,
+        createdAt: serverTimestamp,
+      },
+    )
+  } catch (error) {
+    console.error('AvatarOperations: アバターの保存エラー', error)
+    throw new Error('アバターの保存に失敗しました')
+  }
+}
+
+/**
+ * アバターを画像ごと削除し、枠を解放する
+ *
+ * @description
+ * - 画像を先に削除する（枠を先に解放すると、画像の削除に失敗した時に消せない画像が残る）
+ * - 画像が削除済みでも続けて枠を解放するため、途中で失敗しても削除をやり直せる
+ *
+ * @throws Error 削除に失敗した場合（メッセージはユーザー向け）
+ */
+export const deleteAvatar = async (
+  uid: string,
+  avatar: OwnedAvatar,
+): Promise<void> => {
+  try {
+    await deleteFile(avatar.path)
+    if (STORAGE_DRIVER === 'local') {
+      writeLocalAvatars(readLocalAvatars().filter(({ id }) => id !== avatar.id))
+      return
+    }
+
+    // 枠の解放はアバターの削除と同時に行う（セキュリティルールで検証する）
+    const batch = writeBatch(db)
+    batch.delete(doc(db, USERS_COLLECTION, uid, AVATARS_COLLECTION, avatar.id))
+    batch.update(doc(db, USERS_COLLECTION, uid), {
+      avatarIds: arrayRemove(avatar.id),
+    })
+    await batch.commit()
+  } catch (error) {
+    console.error('AvatarOperations: アバターの削除エラー', error)
+    throw new Error('アバターの削除に失敗しました')
+  }
+}
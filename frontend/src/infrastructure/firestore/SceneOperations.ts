@@ -0,0 +1,76 @@
+/**
+ * シーンのFirestore操作
+ *
+ * @description
+ * - アップロードしたアバターの組み合わせを scenes コレクションに保存する
+ * - 保存したシーンはIDで取得でき、/scene/[id] で共有できる
+ */
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  Timestamp,
+  type DocumentData,
+} from 'firebase/firestore'
+
+import type { CreateSceneInput, Scene, SceneAvatar } from './types'
+import { DEFAULT_CHOREOGRAPHY } from '@/components/scene-renderer/config'
+import { db, serverTimestamp } from '@/lib/firebase'
+
+/** コレクション名 */
+const SCENES_COLLECTION = 'scenes'
+
+/**
+ * Firestoreのデータをシーンに変換する
+ */
+const toScene = (id: string, data: DocumentData): Scene => ({
+  id,
+  avatars: ((data.avatars ?? []) as SceneAvatar[])
+    .map((avatar) => ({
+      ...avatar,
+      // 動きを選べるようになる前に保存したシーンはふわふわ動かす
+      choreography: avatar.choreography ?? DEFAULT_CHOREOGRAPHY,
+    }))
+    .sort((a, b) => a.position - b.position),
+  settings: data.settings ?? null,
+  createdAt:
+    data.createdAt instanceof Timestamp ? data.createdAt.toDate() : null,
+})
+
+/**
+ * シーンを保存する
+ *
+ * @returns 作成したシーンのID
+ * @throws Error 保存に失敗した場合（メッセージはユーザー向け）
+ */
+export const createScene = async (input: CreateSceneInput): Promise<string> => {
+  try {
+    const ref = await addDoc(collection(db, SCENES_COLLECTION), {
+      avatars: input.avatars,
+      settings: input.settings,
+      createdAt: serverTimestamp,
+    })
+    return ref.id
+  } catch (error) {
+    console.error('SceneOperations: シーンの保存エラー', error)
+    throw new Error('シーンの保存に失敗しました')
+  }
+}
+
+/**
+ * シーンを取得する
+ *
+ * @returns シーンが存在しない場合はnull
+ * @throws Error 取得に失敗した場合（メッセージはユーザー向け）
+ */
+export const fetchScene = async (sceneId: string): Promise<Scene | null> => {
+  try {
+    const snapshot = await getDoc(doc(db, SCENES_COLLECTION, sceneId))
+    return snapshot.exists() ? toScene(snapshot.id, snapshot.data()) : null
+  } catch (error) {
+    console.error('SceneOperations: シーンの取得エラー', error)
+    throw new Error('シーンの取得に失敗しました')
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Firestoreのドキュメント関連の型定義
+ */
+
+import type { Avatar } from '@/app/avatars/types'
+import type { AvatarProcessSettings } from '@/app/avatar-uploader/pipeline'
+
+/** シーンに保存するアバター */
+export type SceneAvatar = Avatar & {
+  /** 表示位置（0から始まる左からの並び順） */
+  position: number
+}
+
+/**
+ * 共有用のシーン
+ * scenes/{sceneId} に保存する
+ */
+export type Scene = {
+  /** シーンID */
+  id: string
+  /** 表示するアバター */
+  avatars: SceneAvatar[]
+  /** アバターを加工したときの設定（アップロード前の既定アバターのみの場合はnull） */
+  settings: AvatarProcessSettings | null
+  /** 作成日時 */
+  createdAt: Date | null
+}
+
+/** シーン作成時の入力 */
+export type CreateSceneInput = Pick<Scene, 'avatars' | 'settings'>
+
+/**
+ * ユーザーがアップロードしたアバター
+ * users/{uid}/avatars/{avatarId} に保存する
+ */
+export type OwnedAvatar = Avatar & {
+  /** Storage上のパス */
+  path: string
+  /** 作成日時 */
+  createdAt: Date | null
+}
+
+/**
+ * ユーザー
+ * users/{uid} に保存する
+ */
+export type UserDocument = {
+  /** アップロード枠を確保したアバターのID（最大3件） */
+  avatarIds: string[]
+}
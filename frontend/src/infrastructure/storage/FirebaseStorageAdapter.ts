@@ -0,0 +1,215 @@
+/**
+ * Firebase Storageの実装
+ *
+ * @description
+ * - uploadBytesResumableの進捗イベントを購読し、ファイルごとの進捗を通知する
+ * - 一時停止・再開・キャンセルの操作を提供する
+ * - ネットワーク起因などの一時的なエラーは指数バックオフで自動リトライする
+ * - 本番環境とFirebase Local Emulator Suiteの両方で使用する
+ */
+
+import {
+  deleteObject,
+  getDownloadURL,
+  ref,
+  StorageError,
+  uploadBytesResumable,
+  type UploadTask,
+} from 'firebase/storage'
+
+import { UPLOAD_CONFIG, UPLOAD_ERROR_MESSAGES } from './config'
+import type {
+  StorageAdapter,
+  StorageDriver,
+  UploadErrorCode,
+  UploadHandle,
+  UploadOptions,
+  UploadResult,
+} from './types'
+import { storage } from '@/lib/firebase'
+
+/**
+ * Firebase Storageのエラーを分類する
+ */
+const toUploadErrorCode = (error: unknown): UploadErrorCode => {
+  if (!(error instanceof StorageError)) {
+    return 'unknown'
+  }
+  switch (error.code) {
+    case 'storage/canceled':
+      return 'canceled'
+    case 'storage/unauthorized':
+    case 'storage/unauthenticated':
+    case 'storage/unauthorized-app':
+      return 'unauthorized'
+    case 'storage/quota-exceeded':
+      return 'quota-exceeded'
+    case 'storage/retry-limit-exceeded':
+    case 'storage/server-file-wrong-size':
+    case 'storage/internal-error':
+      return 'network'
+    default:
+      // オフライン時は不明なエラーとして通知されるため通信エラーとみなす
+      return typeof navigator !== 'undefined' && !navigator.onLine
+        ? 'network'
+        : 'unknown'
+  }
+}
+
+/**
+ * 一時的なエラーかどうか（リトライで回復する可能性があるか）
+ */
+const isTransientError = (code: UploadErrorCode): boolean =>
+  code === 'network' || code === 'unknown'
+
+/**
+ * Firebase Storageへのアップロードを開始する
+ *
+ * @param path アップロード先のパス
+ * @param blob アップロードするデータ
+ * @param options アップロードの設定
+ * @returns アップロードの操作と結果
+ */
+const startFirebaseUpload = (
+  path: string,
+  blob: Blob,
+  {
+    onProgress,
+    contentType,
+    maxRetries = UPLOAD_CONFIG.maxRetries,
+    baseRetryDelay = UPLOAD_CONFIG.baseRetryDelay,
+  }: UploadOptions = {},
+): UploadHandle => {
+  const storageRef = ref(storage, path)
+  let task: UploadTask | null = null
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+  let isCanceled = false
+  let attempt = 0
+  let settle: (result: UploadResult) => void = () => {}
+
+  const fail = (code: UploadErrorCode) => {
+    settle({
+      success: false,
+      error: { code, message: UPLOAD_ERROR_MESSAGES[code], attempts: attempt },
+    })
+  }
+
+  /**
+   * 1回分のアップロードを実行する
+   * 一時的なエラーの場合はバックオフ後に再実行する
+   */
+  const run = () => {
+    attempt += 1
+    task = uploadBytesResumable(storageRef, blob, { contentType })
+
+    task.on(
+      'state_changed',
+      (snapshot) => {
+        onProgress?.({
+          state: snapshot.state === 'paused' ? 'paused' : 'running',
+          bytesTransferred: snapshot.bytesTransferred,
+          totalBytes: snapshot.totalBytes,
+          ratio:
+            snapshot.totalBytes > 0
+              ? snapshot.bytesTransferred / snapshot.totalBytes
+              : 0,
+          attempt,
+        })
+      },
+      (error) => {
+        const code = isCanceled ? 'canceled' : toUploadErrorCode(error)
+        console.warn('UploadManager: アップロードエラー', {
+          path,
+          attempt,
+          code,
+          error,
+        })
+
+        if (!isTransientError(code) || attempt > maxRetries) {
+          fail(code)
+          return
+        }
+
+        // 指数バックオフ + ジッターでリトライ
+        const delay = Math.min(
+          baseRetryDelay * 2 ** (attempt - 1) * (1 + Math.random() * 0.5),
+          UPLOAD_CONFIG.maxRetryDelay,
+        )
+        onProgress?.({
+          state: 'retrying',
+          bytesTransferred: 0,
+          totalBytes: blob.size,
+          ratio: 0,
+          attempt,
+        })
+        retryTimer = setTimeout(() => {
+          retryTimer = null
+          run()
+        }, delay)
+      },
+      async () => {
+        try {
+          const url = await getDownloadURL(storageRef)
+          settle({ success: true, url })
+        } catch (error) {
+          console.error('UploadManager: ダウンロードURL取得エラー', error)
+          fail(toUploadErrorCode(error))
+        }
+      },
+    )
+  }
+
+  const result = new Promise<UploadResult>((resolve) => {
+    settle = resolve
+  })
+  run()
+
+  return {
+    pause: () => task?.pause() ?? false,
+    resume: () => task?.resume() ?? false,
+    cancel: () => {
+      isCanceled = true
+      if (retryTimer) {
+        // リトライ待ちの場合はタスクが存在しないため直接終了する
+        clearTimeout(retryTimer)
+        retryTimer = null
+        fail('canceled')
+        return
+      }
+      task?.cancel()
+    },
+    result,
+  }
+}
+
+/**
+ * ファイルを削除する
+ * 削除済みのファイルは成功とみなす（途中で失敗した削除をやり直せるようにする）
+ */
+const removeFirebaseObject = async (path: string): Promise<void> => {
+  try {
+    await deleteObject(ref(storage, path))
+  } catch (error) {
+    if (
+      error instanceof StorageError &&
+      error.code === 'storage/object-not-found'
+    ) {
+      return
+    }
+    throw error
+  }
+}
+
+/**
+ * Firebase Storageの実装を作成する
+ * エミュレータへの接続は lib/firebase で環境変数に応じて行う
+ *
+ * @param driver 'firebase' または 'emulator'
+ */
+export const createFirebaseStorageAdapter = (
+  driver: Extract<StorageDriver, 'firebase' | 'emulator'>,
+): StorageAdapter => ({
+  driver,
+  upload: startFirebaseUpload,
+  remove: removeFirebaseObject,
+})
@@ -0,0 +1,130 @@
+/**
+ * IndexedDBによるローカルストレージの実装
+ *
+ * @description
+ * - ネットワークやFirebaseプロジェクトなしでアバターの一連の流れを開発・確認するための実装
+ * - ファイルはブラウザのIndexedDBに保存し、オブジェクトURLを返す
+ * - オブジェクトURLはページを閉じると無効になるため、再表示時はgetLocalFileUrlで取り直す
+ */
+
+import { UPLOAD_ERROR_MESSAGES } from './config'
+import type { StorageAdapter, UploadHandle, UploadResult } from './types'
+
+/** データベース名 */
+const DB_NAME = 'twinkle-night-storage'
+
+/** オブジェクトストア名 */
+const STORE_NAME = 'files'
+
+/**
+ * データベースを開く
+ */
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+/**
+ * オブジェクトストアに対して1回分の操作を実行する
+ */
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const database = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(
+        database.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+      )
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    database.close()
+  }
+}
+
+/**
+ * 保存済みのファイルのオブジェクトURLを取得する
+ *
+ * @returns ファイルが存在しない場合はnull
+ */
+export const getLocalFileUrl = async (path: string): Promise<string | null> => {
+  const blob = await runTransaction<Blob | undefined>('readonly', (store) =>
+    store.get(path),
+  )
+  return blob ? URL.createObjectURL(blob) : null
+}
+
+/**
+ * ローカルストレージの実装を作成する
+ */
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  driver: 'local',
+  upload: (path, blob, { onProgress } = {}): UploadHandle => {
+    let isCanceled = false
+
+    const result = (async (): Promise<UploadResult> => {
+      onProgress?.({
+        state: 'running',
+        bytesTransferred: 0,
+        totalBytes: blob.size,
+        ratio: 0,
+        attempt: 1,
+      })
+      try {
+        await runTransaction('readwrite', (store) => store.put(blob, path))
+      } catch (error) {
+        console.error('LocalStorageAdapter: 保存エラー', error)
+        return {
+          success: false,
+          error: {
+            code: 'unknown',
+            message: 'ブラウザへの保存に失敗しました',
+            attempts: 1,
+          },
+        }
+      }
+
+      if (isCanceled) {
+        await runTransaction('readwrite', (store) => store.delete(path))
+        return {
+          success: false,
+          error: {
+            code: 'canceled',
+            message: UPLOAD_ERROR_MESSAGES.canceled,
+            attempts: 1,
+          },
+        }
+      }
+
+      onProgress?.({
+        state: 'running',
+        bytesTransferred: blob.size,
+        totalBytes: blob.size,
+        ratio: 1,
+        attempt: 1,
+      })
+      return { success: true, url: URL.createObjectURL(blob) }
+    })()
+
+    return {
+      // ローカル保存は一瞬で終わるため一時停止・再開には対応しない
+      pause: () => false,
+      resume: () => false,
+      cancel: () => {
+        isCanceled = true
+      },
+      result,
+    }
+  },
+  remove: async (path) => {
+    await runTransaction('readwrite', (store) => store.delete(path))
+  },
+})
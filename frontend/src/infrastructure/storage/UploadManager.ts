@@ -0,0 +1,54 @@
+/**
+ * Storageアップロード管理
+ *
+ * @description
+ * - 環境変数で選択されたストレージの実装（Firebase / エミュレータ / ローカル）にアップロードする
+ * - ファイルごとの進捗通知、一時停止・再開・キャンセルを提供する
+ * - 失敗は例外ではなく型付きの結果で返す
+ *
+ * @usage_example
+ * ```typescript
+ * const handle = startUpload('avatars/xxx.png', blob, {
+ *   onProgress: (progress) => console.log(progress.ratio),
+ * })
+ * const result = await handle.result
+ * if (result.success) {
+ *   console.log(result.url)
+ * }
+ * ```
+ */
+
+import { STORAGE_DRIVER } from './config'
+import { createFirebaseStorageAdapter } from './FirebaseStorageAdapter'
+import { createLocalStorageAdapter } from './LocalStorageAdapter'
+import type { StorageAdapter, UploadHandle, UploadOptions } from './types'
+
+let adapter: StorageAdapter | null = null
+
+/**
+ * 使用するストレージの実装を取得する
+ */
+export const getStorageAdapter = (): StorageAdapter => {
+  if (!adapter) {
+    adapter =
+      STORAGE_DRIVER === 'local'
+        ? createLocalStorageAdapter()
+        : createFirebaseStorageAdapter(STORAGE_DRIVER)
+    console.log('UploadManager: ストレージ実装 -', adapter.driver)
+  }
+  return adapter
+}
+
+/**
+ * アップロードを開始する
+ *
+ * @param path アップロード先のパス
+ * @param blob アップロードするデータ
+ * @param options アップロードの設定
+ * @returns アップロードの操作と結果
+ */
+export const startUpload = (
+  path: string,
+  blob: Blob,
+  options?: UploadOptions,
+): UploadHandle => getStorageAdapter().upload(path, blob, options)
@@ -1,12 +1,26 @@
-import { ref, uploadBytesResumable, getDownloadURL } from 'firebase/storage'
-
-import { storage } from '@/lib/firebase'
+import type { UploadOptions } from './types'
+import { getStorageAdapter, startUpload } from './UploadManager'
 
+/**
+ * 画像をアップロードしてダウンロードURLを返す
+ *
+ * @throws Error アップロードに失敗した場合（メッセージはユーザー向け）
+ */
 export const uploadImage = async (
   path: string,
-  blob: Blob
+  blob: Blob,
+  options?: UploadOptions,
 ): Promise<string> => {
-  const imageRef = ref(storage, path)
-  const snapShot = await uploadBytesResumable(imageRef, blob)
-  return getDownloadURL(snapShot.ref)
+  const result = await startUpload(path, blob, options).result
+  if (!result.success) {
+    throw new Error(result.error.message)
+  }
+  return result.url
 }
+
+/**
+ * ファイルを削除する
+ * 存在しないファイルは削除済みとみなすため、何度呼んでもよい
+ */
+export const deleteFile = async (path: string): Promise<void> =>
+  getStorageAdapter().remove(path)
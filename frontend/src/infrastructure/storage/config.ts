@@ -0,0 +1,58 @@
+/**
+ * ストレージ関連の設定定数
+ *
+ * @sections
+ * - STORAGE_DRIVER: 使用するストレージの実装
+ * - UPLOAD_CONFIG: アップロードのリトライ設定
+ * - UPLOAD_ERROR_MESSAGES: エラーメッセージ
+ */
+
+import type { StorageDriver, UploadErrorCode } from './types'
+
+/**
+ * 使用するストレージの実装
+ * - NEXT_PUBLIC_STORAGE_DRIVER=local: IndexedDBに保存（ネットワーク不要）
+ * - NEXT_PUBLIC_USE_FIREBASE_EMULATOR=true: Firebase Local Emulator Suite
+ * - それ以外: Firebase本番環境
+ */
+export const STORAGE_DRIVER: StorageDriver =
+  process.env.NEXT_PUBLIC_STORAGE_DRIVER === 'local'
+    ? 'local'
+    : process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATOR === 'true'
+      ? 'emulator'
+      : 'firebase'
+
+/**
+ * アップロード関連の設定
+ */
+export const UPLOAD_CONFIG = {
+  /** 最大リトライ回数: 3回 */
+  maxRetries: 3,
+
+  /** リトライ間隔の基準値: 1000ms（1秒, 2秒, 4秒...） */
+  baseRetryDelay: 1000,
+
+  /** リトライ間隔の上限: 30秒 */
+  maxRetryDelay: 30 * 1000,
+} as const
+
+/**
+ * エラーメッセージ定数
+ */
+export const UPLOAD_ERROR_MESSAGES: Record<UploadErrorCode, string> = {
+  /** キャンセル */
+  canceled: 'アップロードをキャンセルしました',
+
+  /** 権限なし */
+  unauthorized: 'アップロードする権限がありません',
+
+  /** 容量超過 */
+  'quota-exceeded': 'ストレージの容量を超えたためアップロードできません',
+
+  /** 通信エラー */
+  network:
+    '通信が不安定なためアップロードできませんでした。電波の良い場所で再度お試しください',
+
+  /** 不明なエラー */
+  unknown: 'アップロードに失敗しました。時間をおいて再度お試しください',
+}
@@ -0,0 +1,87 @@
+/**
+ * ストレージ関連の型定義
+ *
+ * @description
+ * - アップロードの進捗・結果・エラーの型
+ * - ストレージの実装（Firebase / エミュレータ / ローカル）を切り替えるためのインターフェース
+ */
+
+/** アップロードの状態 */
+export type UploadState = 'running' | 'paused' | 'retrying'
+
+/** アップロードエラーの種類 */
+export type UploadErrorCode =
+  | 'canceled'
+  | 'unauthorized'
+  | 'quota-exceeded'
+  | 'network'
+  | 'unknown'
+
+/** アップロードエラー */
+export type UploadError = {
+  /** エラーコード */
+  code: UploadErrorCode
+  /** ユーザー向けのエラーメッセージ */
+  message: string
+  /** 試行回数 */
+  attempts: number
+}
+
+/** アップロード結果 */
+export type UploadResult =
+  | { success: true; url: string }
+  | { success: false; error: UploadError }
+
+/** アップロードの進捗 */
+export type UploadProgress = {
+  /** 現在の状態 */
+  state: UploadState
+  /** 転送済みのバイト数 */
+  bytesTransferred: number
+  /** 合計バイト数 */
+  totalBytes: number
+  /** 進捗率（0.0 - 1.0） */
+  ratio: number
+  /** 現在の試行回数（1始まり） */
+  attempt: number
+}
+
+/** アップロードの設定 */
+export type UploadOptions = {
+  /** 進捗通知のコールバック */
+  onProgress?: (progress: UploadProgress) => void
+  /** アップロードするファイルのContent-Type */
+  contentType?: string
+  /** 一時的なエラーの最大リトライ回数 */
+  maxRetries?: number
+  /** リトライ間隔の基準値（ms）。試行ごとに2倍になる */
+  baseRetryDelay?: number
+}
+
+/** アップロードの操作 */
+export type UploadHandle = {
+  /** 一時停止する（実行中でない場合はfalse） */
+  pause: () => boolean
+  /** 再開する（一時停止中でない場合はfalse） */
+  resume: () => boolean
+  /** キャンセルする */
+  cancel: () => void
+  /** アップロード結果 */
+  result: Promise<UploadResult>
+}
+
+/** ストレージの実装の種類 */
+export type StorageDriver = 'firebase' | 'emulator' | 'local'
+
+/**
+ * ストレージの実装
+ * UploadOperations・UploadManagerはこのインターフェースを通してファイルを扱う
+ */
+export type StorageAdapter = {
+  /** 実装の種類 */
+  driver: StorageDriver
+  /** ファイルをアップロードする */
+  upload: (path: string, blob: Blob, options?: UploadOptions) => UploadHandle
+  /** ファイルを削除する（存在しない場合も成功とする） */
+  remove: (path: string) => Promise<void>
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { analyzePcm } from './analyze'
+
+const SAMPLE_RATE = 44100
+
+/**
+ * 指定したBPMのクリック音（低音・中音・高音の減衰する音）を並べたPCMデータを作る
+ *
+ * @returns PCMデータとクリックの時刻（秒）
+ */
+const createClickTrack = (bpm: number, durationSeconds: number) => {
+  const samples = new Float32Array(SAMPLE_RATE * durationSeconds)
+  const clickLength = Math.round(SAMPLE_RATE * 0.03)
+  const clickTimes: number[] = []
+  // 曲の頭の無音の後から鳴らす
+  for (let time = 0.5; time < durationSeconds - 0.1; time += 60 / bpm) {
+    clickTimes.push(time)
+    const start = Math.round(time * SAMPLE_RATE)
+    for (let i = 0; i < clickLength; i++) {
+      const t = i / SAMPLE_RATE
+      samples[start + i] =
+        Math.exp(-t * 150) *
+        (0.5 * Math.sin(2 * Math.PI * 80 * t) +
+          0.3 * Math.sin(2 * Math.PI * 1000 * t) +
+          0.2 * Math.sin(2 * Math.PI * 5000 * t))
+    }
+  }
+  return { samples, clickTimes }
+}
+
+describe('analyzePcm', () => {
+  it('クリック音のビートとBPMを検出する', () => {
+    const { samples, clickTimes } = createClickTrack(120, 12)
+
+    const { beats, bpm } = analyzePcm(samples, SAMPLE_RATE)
+
+    // 履歴がたまるまでの最初のクリック以外は、全てのクリックを1回ずつ検出する
+    expect(beats.length).toBeGreaterThanOrEqual(clickTimes.length - 2)
+    expect(beats.length).toBeLessThanOrEqual(clickTimes.length)
+    for (const beat of beats) {
+      // ビートの時刻は曲の再生位置で、クリックの直後（FFTの窓の半分＋1フレーム以内）
+      const nearest = clickTimes.reduce((a, b) =>
+        Math.abs(b - beat.time) < Math.abs(a - beat.time) ? b : a,
+      )
+      expect(beat.time - nearest).toBeGreaterThanOrEqual(0)
+      expect(beat.time - nearest).toBeLessThan(0.05)
+    }
+    expect(bpm).not.toBeNull()
+    expect(Math.abs((bpm ?? 0) - 120)).toBeLessThanOrEqual(1)
+  })
+
+  it('無音ではビートを検出しない', () => {
+    const { beats, bpm } = analyzePcm(
+      new Float32Array(SAMPLE_RATE * 3),
+      SAMPLE_RATE,
+    )
+
+    expect(beats).toEqual([])
+    expect(bpm).toBeNull()
+  })
+})
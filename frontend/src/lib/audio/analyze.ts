@@ -0,0 +1,73 @@
+/**
+ * 音声データのビート解析
+ *
+ * @description
+ * - デコード済みの音声データ（PCM）を再生せずに解析し、ビートとBPMを求める
+ * - 再生中と同じビート検出器・同じ設定のスペクトル（SPECTRUM_CONFIG）を使うため、
+ *   検出結果を再生なしで確認できる
+ *
+ * @usage_example
+ * ```typescript
+ * const buffer = await audioContext.decodeAudioData(arrayBuffer)
+ * const { beats, bpm } = analyzeAudioBuffer(buffer)
+ * ```
+ */
+
+import { createBeatDetector, estimateBpm } from './beat-detector'
+import { BEAT_DETECTOR_CONFIG } from './config'
+import { createSpectrumAnalyser } from './fft'
+import type { BeatAnalysis, BeatDetectorOptions, BeatEvent } from './types'
+
+/** 解析するフレームの間隔（秒、再生中の描画間隔に合わせる） */
+const FRAME_INTERVAL = 1 / 60
+
+/**
+ * モノラルのPCMデータを解析する
+ *
+ * @param samples PCMデータ（-1〜1）
+ * @param sampleRate サンプリングレート（Hz）
+ * @param options ビート検出の設定
+ */
+export const analyzePcm = (
+  samples: Float32Array,
+  sampleRate: number,
+  options: Partial<BeatDetectorOptions> = {},
+): BeatAnalysis => {
+  const fftSize = options.fftSize ?? BEAT_DETECTOR_CONFIG.fftSize
+  const detector = createBeatDetector({ ...options, sampleRate, fftSize })
+  const analyse = createSpectrumAnalyser(fftSize)
+  const hopSize = Math.max(Math.round(sampleRate * FRAME_INTERVAL), 1)
+
+  const beats: BeatEvent[] = []
+  for (let start = 0; start + fftSize <= samples.length; start += hopSize) {
+    const spectrum = analyse(samples.subarray(start, start + fftSize))
+    // フレームの終わりの時刻（AnalyserNodeは直近のサンプルを解析するため）
+    const beat = detector.process(spectrum, (start + fftSize) / sampleRate)
+    if (beat) {
+      beats.push(beat)
+    }
+  }
+  // 曲全体のビートからBPMを推定する
+  return { beats, bpm: estimateBpm(beats.map((beat) => beat.time)) }
+}
+
+/**
+ * デコード済みの音声データを解析する
+ * 複数チャンネルの場合はモノラルに混ぜてから解析する
+ *
+ * @param buffer デコード済みの音声データ
+ * @param options ビート検出の設定
+ */
+export const analyzeAudioBuffer = (
+  buffer: AudioBuffer,
+  options: Partial<BeatDetectorOptions> = {},
+): BeatAnalysis => {
+  const mono = new Float32Array(buffer.length)
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = 0; i < buffer.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels
+    }
+  }
+  return analyzePcm(mono, buffer.sampleRate, options)
+}
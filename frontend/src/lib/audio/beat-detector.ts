@@ -0,0 +1,180 @@
+/**
+ * ビート・オンセット検出
+ *
+ * @description
+ * - 周波数帯ごとのスペクトルの増加量（スペクトルフラックス）からオンセットを検出する
+ * - 過去のフレームのばらつきからしきい値を決めるため、曲の音量に左右されにくい
+ * - 検出したビートの間隔からBPMを推定する
+ * - スペクトルを渡すだけで動くため、再生中のAnalyserNodeでも音声データの解析でも使える
+ *
+ * @usage_example
+ * ```typescript
+ * const detector = createBeatDetector({ sampleRate: audioContext.sampleRate })
+ * const beat = detector.process(spectrum, getCurrentTime() / 1000)
+ * if (beat) {
+ *   console.log(beat.strength, detector.getBpm())
+ * }
+ * ```
+ */
+
+import { BEAT_DETECTOR_CONFIG, BPM_ESTIMATE_CONFIG } from './config'
+import type {
+  BeatDetector,
+  BeatDetectorOptions,
+  BeatEvent,
+  FrequencyBand,
+} from './types'
+
+/**
+ * 周波数帯に対応するスペクトルのビンの範囲を求める
+ */
+const toBinRange = (
+  band: FrequencyBand,
+  { sampleRate, fftSize }: BeatDetectorOptions,
+) => {
+  const binHz = sampleRate / fftSize
+  return {
+    name: band.name,
+    start: Math.max(Math.floor(band.minHz / binHz), 1),
+    end: Math.min(Math.ceil(band.maxHz / binHz), fftSize / 2),
+  }
+}
+
+/**
+ * ビート間隔のヒストグラムからBPMを推定する
+ * 倍・半分のテンポは推定範囲に折りたたみ、最も多い間隔を選ぶ
+ *
+ * @param beatTimes 検出したビートの時刻（秒、昇順）
+ */
+export const estimateBpm = (beatTimes: number[]): number | null => {
+  const { minBeats, minBpm, maxBpm, maxInterval } = BPM_ESTIMATE_CONFIG
+  if (beatTimes.length < minBeats) {
+    return null
+  }
+
+  const histogram = new Float32Array(maxBpm + 2)
+  for (let i = 0; i < beatTimes.length; i++) {
+    for (let j = i + 1; j < beatTimes.length; j++) {
+      const interval = beatTimes[j] - beatTimes[i]
+      if (interval > maxInterval) {
+        break
+      }
+      let bpm = 60 / interval
+      while (bpm < minBpm) bpm *= 2
+      while (bpm > maxBpm) bpm /= 2
+      // 隣り合う間隔ほど重く数え、丸め誤差は前後のビンに分ける
+      const weight = 1 / (j - i)
+      const lower = Math.floor(bpm)
+      histogram[lower] += weight * (1 - (bpm - lower))
+      histogram[lower + 1] += weight * (bpm - lower)
+    }
+  }
+
+  let bestBpm = 0
+  let bestScore = 0
+  for (let bpm = minBpm; bpm <= maxBpm; bpm++) {
+    // 前後1BPMも含めて数え、ばらつきに強くする
+    const score = histogram[bpm - 1] + histogram[bpm] + histogram[bpm + 1]
+    if (score > bestScore) {
+      bestScore = score
+      bestBpm = bpm
+    }
+  }
+  return bestScore > 0 ? bestBpm : null
+}
+
+/**
+ * ビート検出器を作成する
+ *
+ * @param options 検出の設定（省略した項目は既定値）
+ */
+export const createBeatDetector = (
+  options: Partial<BeatDetectorOptions> = {},
+): BeatDetector => {
+  const config: BeatDetectorOptions = { ...BEAT_DETECTOR_CONFIG, ...options }
+  const bands = config.bands.map((band) => toBinRange(band, config))
+
+  let previous: Float32Array | null = null
+  let histories: number[][] = bands.map(() => [])
+  let lastBeatTime = -Infinity
+  let beatTimes: number[] = []
+
+  const process = (
+    spectrum: ArrayLike<number>,
+    time: number,
+  ): BeatEvent | null => {
+    const current = Float32Array.from(spectrum)
+    if (!previous || previous.length !== current.length) {
+      previous = current
+      return null
+    }
+
+    let strongest: { name: string; ratio: number } | null = null
+    for (let index = 0; index < bands.length; index++) {
+      const band = bands[index]
+      // 帯域内で大きくなった分だけを足し合わせる
+      let flux = 0
+      for (let i = band.start; i < band.end; i++) {
+        flux += Math.max(current[i] - previous[i], 0)
+      }
+      flux /= Math.max(band.end - band.start, 1)
+
+      const history = histories[index]
+      // 過去の平均から標準偏差の何倍離れたかでしきい値を決める
+      const average =
+        history.reduce((sum, value) => sum + value, 0) /
+        Math.max(history.length, 1)
+      const deviation = Math.sqrt(
+        history.reduce((sum, value) => sum + (value - average) ** 2, 0) /
+          Math.max(history.length, 1),
+      )
+      const threshold = Math.max(
+        average + deviation * config.thresholdDeviation,
+        config.minFlux,
+      )
+      history.push(flux)
+      if (history.length > config.historySize) {
+        history.shift()
+      }
+
+      // 履歴が少ないうちはしきい値が安定しないため検出しない
+      if (history.length < config.historySize / 4) {
+        continue
+      }
+      const ratio = flux / threshold
+      if (ratio > 1 && (!strongest || ratio > strongest.ratio)) {
+        strongest = { name: band.name, ratio }
+      }
+    }
+    previous = current
+
+    if (!strongest || time - lastBeatTime < config.minInterval) {
+      return null
+    }
+
+    lastBeatTime = time
+    beatTimes.push(time)
+    if (beatTimes.length > BPM_ESTIMATE_CONFIG.beatHistorySize) {
+      beatTimes.shift()
+    }
+    return {
+      time,
+      // しきい値の2倍で最大の強さとする
+      strength: Math.min(strongest.ratio - 1, 1),
+      band: strongest.name,
+    }
+  }
+
+  const reset = () => {
+    previous = null
+    histories = bands.map(() => [])
+    lastBeatTime = -Infinity
+    beatTimes = []
+  }
+
+  return {
+    process,
+    getBpm: () => estimateBpm(beatTimes),
+    reset,
+  }
+}
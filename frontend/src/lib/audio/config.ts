@@ -0,0 +1,66 @@
+/**
+ * 音声解析の設定定数
+ *
+ * @sections
+ * - BEAT_DETECTOR_CONFIG: ビート検出の既定値
+ * - BPM_ESTIMATE_CONFIG: BPM推定の設定
+ * - SPECTRUM_CONFIG: ビート検出に使うスペクトルの設定
+ */
+
+import type { BeatDetectorOptions } from './types'
+
+/**
+ * ビート検出の既定値（sampleRateはAudioContextやAudioBufferに合わせて上書きする）
+ */
+export const BEAT_DETECTOR_CONFIG: BeatDetectorOptions = {
+  /** サンプリングレート: 44.1kHz */
+  sampleRate: 44100,
+  /** FFTサイズ: AnalyserNodeと同じ2048 */
+  fftSize: 2048,
+  /** キック・スネア・ハイハットに相当する3帯域 */
+  bands: [
+    { name: 'low', minHz: 40, maxHz: 150 },
+    { name: 'mid', minHz: 150, maxHz: 2000 },
+    { name: 'high', minHz: 2000, maxHz: 10000 },
+  ],
+  /** 約0.7秒分（60fps換算）の履歴 */
+  historySize: 43,
+  /** 平均から標準偏差の3倍を超えたらオンセット */
+  thresholdDeviation: 3,
+  /** 正規化したスペクトルの増加量の合計の下限 */
+  minFlux: 0.02,
+  /** 200BPMの16分音符より短い間隔は無視する */
+  minInterval: 0.075,
+}
+
+/**
+ * BPM推定の設定
+ */
+export const BPM_ESTIMATE_CONFIG = {
+  /** 推定に使う直近のビート数 */
+  beatHistorySize: 48,
+  /** 推定に必要な最小のビート数 */
+  minBeats: 8,
+  /** 推定するBPMの範囲（倍・半分のテンポはこの範囲に折りたたむ） */
+  minBpm: 70,
+  maxBpm: 180,
+  /** 間隔として扱う最大の長さ（秒） */
+  maxInterval: 2,
+  /** 推定がこの数のビートの間変わらなければ、曲の間はBPMを固定する（アバターの動きの周期が変わらないように） */
+  stableBeats: 16,
+  /** この差より小さい推定の揺れではBPMを変えない */
+  tolerance: 2,
+} as const
+
+/**
+ * ビート検出に使うスペクトルの設定
+ * 再生中のビート検出用AnalyserNodeと音声データの解析で同じ値を使い、同じスペクトルを解析する
+ */
+export const SPECTRUM_CONFIG = {
+  /** 時間方向の平滑化: なし（平滑化するとオンセットの立ち上がりが鈍る） */
+  smoothingTimeConstant: 0,
+  /** 0に正規化する大きさ（dB） */
+  minDecibels: -90,
+  /** 1に正規化する大きさ（dB） */
+  maxDecibels: -10,
+} as const
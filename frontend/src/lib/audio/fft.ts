@@ -0,0 +1,100 @@
+/**
+ * 高速フーリエ変換
+ *
+ * @description
+ * - 音声データからAnalyserNodeのgetByteFrequencyDataと同じ周波数スペクトルを求める
+ *   （ブラックマン窓・時間方向の平滑化・デシベルの正規化・0〜255への量子化）
+ * - 再生せずに音声データを解析するときに使用する
+ */
+
+import { SPECTRUM_CONFIG } from './config'
+
+/**
+ * 基数2の高速フーリエ変換（インプレース）
+ *
+ * @param real 実部（長さは2の累乗）
+ * @param imag 虚部
+ */
+const transform = (real: Float32Array, imag: Float32Array) => {
+  const size = real.length
+
+  // ビット反転の並び替え
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1
+    for (; j & bit; bit >>= 1) {
+      j ^= bit
+    }
+    j ^= bit
+    if (i < j) {
+      ;[real[i], real[j]] = [real[j], real[i]]
+      ;[imag[i], imag[j]] = [imag[j], imag[i]]
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length
+    const stepReal = Math.cos(angle)
+    const stepImag = Math.sin(angle)
+    for (let start = 0; start < size; start += length) {
+      let wReal = 1
+      let wImag = 0
+      for (let k = 0; k < length / 2; k++) {
+        const even = start + k
+        const odd = even + length / 2
+        const oddReal = real[odd] * wReal - imag[odd] * wImag
+        const oddImag = real[odd] * wImag + imag[odd] * wReal
+        real[odd] = real[even] - oddReal
+        imag[odd] = imag[even] - oddImag
+        real[even] += oddReal
+        imag[even] += oddImag
+        const nextReal = wReal * stepReal - wImag * stepImag
+        wImag = wReal * stepImag + wImag * stepReal
+        wReal = nextReal
+      }
+    }
+  }
+}
+
+/**
+ * AnalyserNodeと同じ手順でスペクトルを求める関数を作成する
+ * 時間方向の平滑化のため前のフレームの大きさを保持する（フレームの順に呼び出す）
+ *
+ * @param fftSize FFTサイズ（2の累乗）
+ * @returns 音声データの1フレーム（長さはFFTサイズ）から、各ビンの大きさ（0〜1、長さはFFTサイズの半分）を求める関数
+ */
+export const createSpectrumAnalyser = (
+  fftSize: number,
+): ((samples: Float32Array) => Float32Array) => {
+  const { smoothingTimeConstant, minDecibels, maxDecibels } = SPECTRUM_CONFIG
+  const smoothed = new Float32Array(fftSize / 2)
+  const real = new Float32Array(fftSize)
+  const imag = new Float32Array(fftSize)
+
+  return (samples) => {
+    for (let i = 0; i < fftSize; i++) {
+      const window =
+        0.42 -
+        0.5 * Math.cos((2 * Math.PI * i) / fftSize) +
+        0.08 * Math.cos((4 * Math.PI * i) / fftSize)
+      real[i] = samples[i] * window
+      imag[i] = 0
+    }
+    transform(real, imag)
+
+    const spectrum = new Float32Array(fftSize / 2)
+    for (let i = 0; i < fftSize / 2; i++) {
+      // 平滑化はデシベルに変換する前の大きさに対して行う
+      const magnitude = Math.hypot(real[i], imag[i]) / fftSize
+      smoothed[i] =
+        smoothingTimeConstant * smoothed[i] +
+        (1 - smoothingTimeConstant) * magnitude
+      const decibels = 20 * Math.log10(smoothed[i] || Number.MIN_VALUE)
+      // getByteFrequencyDataと同じく0〜255に量子化してから0〜1に戻す
+      const byte = Math.floor(
+        (255 * (decibels - minDecibels)) / (maxDecibels - minDecibels),
+      )
+      spectrum[i] = Math.min(Math.max(byte, 0), 255) / 255
+    }
+    return spectrum
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * 音声解析関連の型定義
+ */
+
+/** オンセットを検出する周波数帯 */
+export type FrequencyBand = {
+  /** 帯域名 */
+  name: string
+  /** 下限周波数（Hz） */
+  minHz: number
+  /** 上限周波数（Hz） */
+  maxHz: number
+}
+
+/** 検出したビート */
+export type BeatEvent = {
+  /** 曲の再生位置（秒） */
+  time: number
+  /** 強さ（0〜1、しきい値からどれだけ上回ったか） */
+  strength: number
+  /** 最も強く反応した帯域名 */
+  band: string
+}
+
+/** ビート検出の設定 */
+export type BeatDetectorOptions = {
+  /** 周波数スペクトルのサンプリングレート（Hz） */
+  sampleRate: number
+  /** FFTサイズ（スペクトルのビン数はこの半分） */
+  fftSize: number
+  /** 検出する周波数帯 */
+  bands: FrequencyBand[]
+  /** しきい値の計算に使う過去のフレーム数 */
+  historySize: number
+  /** 過去の平均から標準偏差の何倍を超えたらオンセットとみなすか */
+  thresholdDeviation: number
+  /** 無音付近での誤検出を防ぐしきい値の下限 */
+  minFlux: number
+  /** 連続して検出しない最小間隔（秒） */
+  minInterval: number
+}
+
+/** ビート検出器 */
+export type BeatDetector = {
+  /**
+   * 1フレーム分のスペクトルを解析する
+   *
+   * @param spectrum 各ビンの大きさ（0〜1、デシベルを正規化した値）
+   * @param time 曲の再生位置（秒）
+   * @returns ビートを検出した場合はイベント、それ以外はnull
+   */
+  process: (spectrum: ArrayLike<number>, time: number) => BeatEvent | null
+  /** これまでのビート間隔から推定したBPM（推定できない場合はnull） */
+  getBpm: () => number | null
+  /** 状態を初期化する（シーク時など） */
+  reset: () => void
+}
+
+/** 音声データの解析結果 */
+export type BeatAnalysis = {
+  /** 検出したビート */
+  beats: BeatEvent[]
+  /** 推定したBPM（推定できない場合はnull） */
+  bpm: number | null
+}
@@ -0,0 +1,129 @@
+import { useEffect, useRef, useState } from 'react'
+import { createBeatDetector } from './beat-detector'
+import {
+  BEAT_DETECTOR_CONFIG,
+  BPM_ESTIMATE_CONFIG,
+  SPECTRUM_CONFIG,
+} from './config'
+import type { BeatEvent } from './types'
+
+/** 前のフレームからこれ以上進んだ・戻った場合はシークとみなす（秒） */
+const SEEK_THRESHOLD = 0.5
+
+type Options = {
+  /** 解析するかどうか（再生中のみtrueにする） */
+  isActive: boolean
+  /** 曲の再生位置（ミリ秒、再生時計のgetCurrentTime） */
+  getTime: () => number
+  /** 曲のID（曲が変わったらBPMの推定をやり直す） */
+  trackId: string
+  /** ビートを検出したときのコールバック */
+  onBeat?: (beat: BeatEvent) => void
+}
+
+/**
+ * 再生中の音声からビートを検出するフック
+ *
+ * @description
+ * - 再生中の音声にビート検出用のAnalyserNodeをつなぎ、描画フレームごとにスペクトルを読み取る
+ * - ビート検出用のAnalyserNodeは SPECTRUM_CONFIG で設定し、音声データの解析（analyze.ts）と同じスペクトルを解析する
+ *   （波形表示用のAnalyserNodeは平滑化されているため使わない）
+ * - ビートの時刻は曲の再生位置（秒）。シークしたら検出の履歴をやり直す
+ * - 推定したBPMが安定したら、曲が変わるまでBPMを固定する（アバターの動きの周期が途中で変わらないように）
+ *
+ * @param analyserNode 再生中の音声に接続したAnalyserNode
+ * @returns 推定したBPM（推定できるまではnull）
+ */
+export const useBeatDetector = (
+  analyserNode: AnalyserNode | null,
+  { isActive, getTime, trackId, onBeat }: Options,
+): { bpm: number | null } => {
+  const [bpm, setBpm] = useState<number | null>(null)
+  const callbacksRef = useRef({ getTime, onBeat })
+  /** 採用したBPMと、その推定が続いたビートの数（一時停止・再開しても引き継ぐ） */
+  const estimateRef = useRef<{ bpm: number | null; stableBeats: number }>({
+    bpm: null,
+    stableBeats: 0,
+  })
+
+  useEffect(() => {
+    callbacksRef.current = { getTime, onBeat }
+  }, [getTime, onBeat])
+
+  /**
+   * 曲が変わったらBPMの推定をやり直す
+   */
+  useEffect(() => {
+    estimateRef.current = { bpm: null, stableBeats: 0 }
+    setBpm(null)
+  }, [trackId])
+
+  useEffect(() => {
+    if (!analyserNode || !isActive) {
+      return
+    }
+
+    const beatAnalyser = analyserNode.context.createAnalyser()
+    beatAnalyser.fftSize = BEAT_DETECTOR_CONFIG.fftSize
+    beatAnalyser.smoothingTimeConstant = SPECTRUM_CONFIG.smoothingTimeConstant
+    beatAnalyser.minDecibels = SPECTRUM_CONFIG.minDecibels
+    beatAnalyser.maxDecibels = SPECTRUM_CONFIG.maxDecibels
+    analyserNode.connect(beatAnalyser)
+
+    const detector = createBeatDetector({
+      sampleRate: beatAnalyser.context.sampleRate,
+      fftSize: beatAnalyser.fftSize,
+    })
+    const frequencyData = new Uint8Array(beatAnalyser.frequencyBinCount)
+    const spectrum = new Float32Array(beatAnalyser.frequencyBinCount)
+    let previousTime: number | null = null
+    let animationId = 0
+
+    const detect = () => {
+      const time = callbacksRef.current.getTime() / 1000
+      if (
+        previousTime !== null &&
+        (time < previousTime || time - previousTime > SEEK_THRESHOLD)
+      ) {
+        detector.reset()
+      }
+      previousTime = time
+
+      beatAnalyser.getByteFrequencyData(frequencyData)
+      for (let i = 0; i < frequencyData.length; i++) {
+        spectrum[i] = frequencyData[i] / 255
+      }
+      const beat = detector.process(spectrum, time)
+      if (beat) {
+        callbacksRef.current.onBeat?.(beat)
+        const estimate = estimateRef.current
+        const nextBpm = detector.getBpm()
+        // 固定した後と、シーク直後など推定できない間は直前のBPMを使い続ける
+        if (
+          estimate.stableBeats < BPM_ESTIMATE_CONFIG.stableBeats &&
+          nextBpm !== null
+        ) {
+          // 推定の小さな揺れでアバターの動きの周期が変わらないよう、揺れの範囲内なら安定しているとみなす
+          if (
+            estimate.bpm !== null &&
+            Math.abs(estimate.bpm - nextBpm) < BPM_ESTIMATE_CONFIG.tolerance
+          ) {
+            estimate.stableBeats++
+          } else {
+            estimateRef.current = { bpm: nextBpm, stableBeats: 0 }
+            setBpm(nextBpm)
+          }
+        }
+      }
+      animationId = requestAnimationFrame(detect)
+    }
+    animationId = requestAnimationFrame(detect)
+
+    return () => {
+      cancelAnimationFrame(animationId)
+      analyserNode.disconnect(beatAnalyser)
+    }
+  }, [analyserNode, isActive])
+
+  return { bpm }
+}
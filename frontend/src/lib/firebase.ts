@@ -1,16 +1,32 @@
 import { initializeApp } from 'firebase/app'
-import { getAuth } from 'firebase/auth'
+import { connectAuthEmulator, getAuth } from 'firebase/auth'
 import {
+  connectFirestoreEmulator,
   serverTimestamp as getServerTimeStamp,
   getFirestore,
 } from 'firebase/firestore'
-import { getStorage } from 'firebase/storage'
+import { connectStorageEmulator, getStorage } from 'firebase/storage'
+
+/** Firebase Local Emulator Suiteに接続するか */
+const isEmulatorEnabled =
+  process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATOR === 'true'
+
+/** エミュレータのホスト */
+const emulatorHost =
+  process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST || '127.0.0.1'
+
+// エミュレータ利用時はFirebaseプロジェクトがなくても動くよう demo- プロジェクトを使う
+const projectId =
+  process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ||
+  (isEmulatorEnabled ? 'demo-twinkle-night' : undefined)
 
 const config = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
   authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
-  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
-  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+  projectId,
+  storageBucket:
+    process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET ||
+    (isEmulatorEnabled ? `${projectId}.appspot.com` : undefined),
   messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
   appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
 }
@@ -25,4 +41,13 @@ const serverTimestamp = getServerTimeStamp()
 
 const storage = getStorage(firebaseApp)
 
-export { auth, db, serverTimestamp, storage }
+if (isEmulatorEnabled) {
+  // ポートは firebase.json の emulators 設定と合わせる
+  connectAuthEmulator(auth, `http://${emulatorHost}:9099`, {
+    disableWarnings: true,
+  })
+  connectFirestoreEmulator(db, emulatorHost, 8080)
+  connectStorageEmulator(storage, emulatorHost, 9199)
+}
+
+export { auth, db, isEmulatorEnabled, serverTimestamp, storage }
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { floodFillMask } from './background-remover'
+
+type Rgb = [number, number, number]
+
+const WHITE: Rgb = [255, 255, 255]
+const BLUE: Rgb = [40, 80, 200]
+const RED: Rgb = [220, 30, 30]
+
+/**
+ * 1文字1ピクセルの図からImageData相当のピクセルを作る
+ */
+const createImage = (rows: string[], colors: Record<string, Rgb>) => {
+  const height = rows.length
+  const width = rows[0].length
+  const data = new Uint8ClampedArray(width * height * 4)
+  rows.forEach((row, y) => {
+    ;[...row].forEach((key, x) => {
+      const offset = (y * width + x) * 4
+      data.set([...colors[key], 255], offset)
+    })
+  })
+  return { width, height, data }
+}
+
+/**
+ * マスクを図と同じ形の文字列にする（.: 背景、#: 前景）
+ */
+const toRows = (mask: Uint8ClampedArray, width: number): string[] =>
+  Array.from({ length: mask.length / width }, (_, y) =>
+    [...mask.subarray(y * width, (y + 1) * width)]
+      .map((value) => (value === 0 ? '.' : '#'))
+      .join(''),
+  )
+
+describe('floodFillMask', () => {
+  it('外周の色が2色あっても、どちらかの色に近い背景はすべて塗りつぶす', () => {
+    // 上端だけ白、それ以外の背景は青。白の起点から先に判定されても青の背景は残らない
+    const image = createImage(
+      ['wwwwwwww', 'bbbbbbbb', 'bbbrrbbb', 'bbbrrbbb', 'bbbbbbbb', 'bbbbbbbb'],
+      { w: WHITE, b: BLUE, r: RED },
+    )
+
+    const mask = floodFillMask(image, 10)
+
+    expect(toRows(mask, image.width)).toEqual([
+      '........',
+      '........',
+      '...##...',
+      '...##...',
+      '........',
+      '........',
+    ])
+  })
+
+  it('外周から続いていない背景色は前景のまま残す', () => {
+    const image = createImage(
+      ['bbbbbb', 'brrrrb', 'brbbrb', 'brrrrb', 'bbbbbb'],
+      { b: BLUE, r: RED },
+    )
+
+    const mask = floodFillMask(image, 10)
+
+    expect(toRows(mask, image.width)).toEqual([
+      '......',
+      '.####.',
+      '.####.',
+      '.####.',
+      '......',
+    ])
+  })
+})
@@ -0,0 +1,216 @@
+/**
+ * 背景除去エンジン
+ *
+ * @description
+ * - 背景除去の処理をBackgroundRemoverインターフェースで抽象化する
+ * - ブラウザ内で完結するflood-fill方式と、将来のサーバー側エンジン用の枠を提供
+ * - 結果はアルファマスクとして返し、マスクエディタで手動修正できるようにする
+ *
+ * @engines
+ * - flood-fill: 画像の外周から色の近いピクセルを塗りつぶして背景と判定
+ * - server: NEXT_PUBLIC_IMAGE_API_URL のFastAPIに画像を送信（U-2-Net等を想定）
+ */
+
+import { createCanvas, getContext2d, readImageData } from './canvas'
+import { BACKGROUND_REMOVAL_CONFIG } from './config'
+import { createMaskFromImageData } from './mask'
+import type { AlphaMask, ImageResult } from './types'
+import { createImageError } from './validation'
+
+/** 背景除去エンジンの種類 */
+export type BackgroundRemoverType = 'flood-fill' | 'server'
+
+/** 背景除去の設定 */
+export type BackgroundRemovalOptions = {
+  /** 背景とみなす色の許容範囲（0-100） */
+  tolerance: number
+}
+
+/**
+ * 背景除去エンジン
+ */
+export type BackgroundRemover = {
+  /** エンジンの種類 */
+  type: BackgroundRemoverType
+  /** 現在の環境で利用できるか */
+  isAvailable: () => boolean
+  /**
+   * 背景を除去したアルファマスクを作成する
+   *
+   * @param source 対象の画像（PNGに正規化済みのもの）
+   */
+  createMask: (
+    source: Blob,
+    options: BackgroundRemovalOptions,
+  ) => Promise<ImageResult<AlphaMask>>
+}
+
+/**
+ * 画像の外周から塗りつぶして背景のアルファマスクを作成する
+ *
+ * @description
+ * - 外周の各ピクセルを起点に、起点の色との差が許容範囲内のピクセルを背景（0）とする
+ * - 起点の色を保持して塗りつぶす（隣接ピクセルとの比較だとグラデーションを越えて侵食するため）
+ * - 許容範囲外と判定したピクセルも、別の起点からは改めて判定する
+ *   （外周に複数の色がある場合に、塗りつぶしの順番で結果が変わらないようにする）
+ *
+ * @param image 対象の画像のピクセル
+ * @param tolerance 背景とみなす色の許容範囲（0-100）
+ * @returns アルファマスク（0: 背景、255: 前景）
+ */
+export const floodFillMask = (
+  { width, height, data }: Pick<ImageData, 'width' | 'height' | 'data'>,
+  tolerance: number,
+): Uint8ClampedArray => {
+  const mask = new Uint8ClampedArray(width * height).fill(255)
+
+  // 許容範囲（0-100）をRGB距離の2乗に換算
+  const maxDistance = ((tolerance / 100) * 441.7) ** 2
+
+  // 背景と判定したピクセルだけを塗りつぶし済みにする
+  const isFilled = new Uint8Array(width * height)
+  // [ピクセル, 起点] の組を順に積む
+  const queue: number[] = []
+  const enqueue = (index: number, seed: number) => {
+    if (!isFilled[index]) {
+      queue.push(index, seed)
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    enqueue(x, x)
+    enqueue((height - 1) * width + x, (height - 1) * width + x)
+  }
+  for (let y = 0; y < height; y++) {
+    enqueue(y * width, y * width)
+    enqueue(y * width + width - 1, y * width + width - 1)
+  }
+
+  for (let cursor = 0; cursor < queue.length; cursor += 2) {
+    const index = queue[cursor]
+    const seed = queue[cursor + 1]
+    if (isFilled[index]) {
+      continue
+    }
+    const offset = index * 4
+    const seedOffset = seed * 4
+
+    // 元から透明なピクセルは背景として扱う
+    const isTransparent = data[offset + 3] === 0
+    const dr = data[offset] - data[seedOffset]
+    const dg = data[offset + 1] - data[seedOffset + 1]
+    const db = data[offset + 2] - data[seedOffset + 2]
+    if (!isTransparent && dr * dr + dg * dg + db * db > maxDistance) {
+      continue
+    }
+
+    isFilled[index] = 1
+    mask[index] = 0
+    const x = index % width
+    const y = (index - x) / width
+    if (x > 0) enqueue(index - 1, seed)
+    if (x < width - 1) enqueue(index + 1, seed)
+    if (y > 0) enqueue(index - width, seed)
+    if (y < height - 1) enqueue(index + width, seed)
+  }
+
+  return mask
+}
+
+/**
+ * flood-fill方式の背景除去エンジンを作成する
+ * 外周の各ピクセルを起点に、起点の色との差が許容範囲内のピクセルを背景とする
+ */
+export const createFloodFillRemover = (): BackgroundRemover => ({
+  type: 'flood-fill',
+  isAvailable: () => true,
+  createMask: async (source, { tolerance }) => {
+    try {
+      const imageData = await readImageData(source)
+      const { width, height } = imageData
+      return {
+        success: true,
+        value: { width, height, data: floodFillMask(imageData, tolerance) },
+      }
+    } catch (error) {
+      console.error('FloodFillRemover: 背景除去エラー', error)
+      return {
+        success: false,
+        error: createImageError('BACKGROUND_REMOVAL_FAILED'),
+      }
+    }
+  },
+})
+
+/**
+ * サーバー側の背景除去エンジンを作成する
+ * 背景を除去した透過PNGを返すAPIを想定し、そのアルファチャンネルをマスクにする
+ *
+ * @param endpoint 背景除去APIのURL
+ */
+export const createServerRemover = (
+  endpoint: string | null = BACKGROUND_REMOVAL_CONFIG.serverEndpoint,
+): BackgroundRemover => ({
+  type: 'server',
+  isAvailable: () => endpoint !== null,
+  createMask: async (source) => {
+    if (!endpoint) {
+      return {
+        success: false,
+        error: createImageError('BACKGROUND_REMOVER_UNAVAILABLE'),
+      }
+    }
+
+    try {
+      const body = new FormData()
+      body.append('file', source, 'avatar.png')
+      const response = await fetch(endpoint, { method: 'POST', body })
+      if (!response.ok) {
+        throw new Error(`Background removal API error: ${response.status}`)
+      }
+
+      const result = await readImageData(await response.blob())
+      const sourceData = await readImageData(source)
+
+      // 返却画像のサイズが異なる場合は元画像のサイズに合わせる
+      if (
+        result.width !== sourceData.width ||
+        result.height !== sourceData.height
+      ) {
+        const canvas = createCanvas(sourceData.width, sourceData.height)
+        const context = getContext2d(canvas)
+        const resultCanvas = createCanvas(result.width, result.height)
+        getContext2d(resultCanvas).putImageData(result, 0, 0)
+        context.drawImage(
+          resultCanvas,
+          0,
+          0,
+          sourceData.width,
+          sourceData.height,
+        )
+        return {
+          success: true,
+          value: createMaskFromImageData(
+            context.getImageData(0, 0, sourceData.width, sourceData.height),
+          ),
+        }
+      }
+
+      return { success: true, value: createMaskFromImageData(result) }
+    } catch (error) {
+      console.error('ServerRemover: 背景除去エラー', error)
+      return {
+        success: false,
+        error: createImageError('BACKGROUND_REMOVAL_FAILED'),
+      }
+    }
+  },
+})
+
+/**
+ * 種類を指定して背景除去エンジンを取得する
+ */
+export const getBackgroundRemover = (
+  type: BackgroundRemoverType,
+): BackgroundRemover =>
+  type === 'server' ? createServerRemover() : createFloodFillRemover()
@@ -0,0 +1,146 @@
+/**
+ * Canvas操作ユーティリティ
+ *
+ * @description
+ * - OffscreenCanvasが使える環境ではOffscreenCanvasを、使えない環境ではcanvas要素を使用
+ * - 画像のデコード・エンコードを共通化
+ */
+
+/** 画像処理に使うCanvas */
+export type ImageCanvas = HTMLCanvasElement | OffscreenCanvas
+
+/** 画像処理に使う2D描画コンテキスト */
+export type ImageCanvasContext =
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D
+
+/** デコード済みの画像 */
+export type DecodedImage = ImageBitmap | HTMLImageElement
+
+/**
+ * 指定サイズのCanvasを作成する
+ */
+export const createCanvas = (width: number, height: number): ImageCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height)
+  }
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
+/**
+ * 2D描画コンテキストを取得する
+ *
+ * @throws Error コンテキストが取得できない場合
+ */
+export const getContext2d = (canvas: ImageCanvas): ImageCanvasContext => {
+  const context = canvas.getContext('2d', {
+    willReadFrequently: true,
+  }) as ImageCanvasContext | null
+  if (!context) {
+    throw new Error('Canvas 2D context is not available')
+  }
+  return context
+}
+
+/**
+ * CanvasをBlobに変換する
+ *
+ * @throws Error 変換に失敗した場合
+ */
+export const canvasToBlob = async (
+  canvas: ImageCanvas,
+  type = 'image/png',
+): Promise<Blob> => {
+  if (canvas instanceof HTMLCanvasElement) {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob)
+        } else {
+          reject(new Error('Failed to encode canvas'))
+        }
+      }, type)
+    })
+  }
+  return canvas.convertToBlob({ type })
+}
+
+/**
+ * 画像をデコードする
+ * EXIFの回転情報は`imageOrientation: 'from-image'`で反映する
+ *
+ * @throws Error デコードに失敗した場合
+ */
+export const decodeImage = async (blob: Blob): Promise<DecodedImage> => {
+  if (typeof createImageBitmap !== 'undefined') {
+    try {
+      return await createImageBitmap(blob, { imageOrientation: 'from-image' })
+    } catch (error) {
+      // Safari等createImageBitmapで一部形式を扱えない場合はimg要素にフォールバック
+      console.warn('decodeImage: createImageBitmapでのデコードに失敗', error)
+    }
+  }
+
+  // img要素はCSSのimage-orientation（既定値from-image）でEXIFの回転が反映される
+  const url = URL.createObjectURL(blob)
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+    return image
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/**
+ * デコード済み画像の幅と高さを取得する
+ */
+export const getImageSize = (
+  image: DecodedImage,
+): { width: number; height: number } => {
+  if (image instanceof HTMLImageElement) {
+    return { width: image.naturalWidth, height: image.naturalHeight }
+  }
+  return { width: image.width, height: image.height }
+}
+
+/**
+ * デコード済み画像を解放する
+ */
+export const releaseImage = (image: DecodedImage): void => {
+  if (!(image instanceof HTMLImageElement)) {
+    image.close()
+  }
+}
+
+/**
+ * 画像をデコードしてピクセルデータを取得する
+ *
+ * @throws Error デコードに失敗した場合
+ */
+export const readImageData = async (blob: Blob): Promise<ImageData> => {
+  const image = await decodeImage(blob)
+  try {
+    const { width, height } = getImageSize(image)
+    const context = getContext2d(createCanvas(width, height))
+    context.drawImage(image, 0, 0)
+    return context.getImageData(0, 0, width, height)
+  } finally {
+    releaseImage(image)
+  }
+}
+
+/**
+ * ピクセルデータをPNGにエンコードする
+ *
+ * @throws Error エンコードに失敗した場合
+ */
+export const imageDataToBlob = async (imageData: ImageData): Promise<Blob> => {
+  const canvas = createCanvas(imageData.width, imageData.height)
+  getContext2d(canvas).putImageData(imageData, 0, 0)
+  return canvasToBlob(canvas)
+}
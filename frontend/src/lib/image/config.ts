@@ -0,0 +1,143 @@
+/**
+ * 画像処理設定定数
+ *
+ * @description
+ * - アップロード画像のサイズ・形式の制限値を一元管理
+ * - ユーザー向けエラーメッセージを一元管理
+ *
+ * @sections
+ * - IMAGE_VALIDATION_CONFIG: バリデーションの制限値
+ * - IMAGE_OUTPUT_CONFIG: 正規化後の出力設定
+ * - PIXEL_ART_CONFIG: ドット絵変換の設定
+ * - BACKGROUND_REMOVAL_CONFIG: 背景除去の設定
+ * - ERROR_MESSAGES: エラーメッセージ
+ */
+
+import type { ImageErrorCode, ImageMimeType, PixelArtOptions } from './types'
+
+/**
+ * アップロード画像の制限値
+ */
+export const IMAGE_VALIDATION_CONFIG = {
+  /** 受け付ける形式 */
+  acceptedTypes: [
+    'image/jpeg',
+    'image/png',
+    'image/webp',
+    'image/heic',
+  ] as ImageMimeType[],
+
+  /** ファイルサイズの上限: 10MB */
+  maxFileSize: 10 * 1024 * 1024,
+
+  /**
+   * 縦横それぞれの最大ピクセル数: 8000px
+   * デコードで巨大なビットマップを確保しないよう、PNG・JPEG・WebPはデコード前にヘッダーから検証する
+   * （ヘッダーから読み取れないHEICはデコード後に検証する）
+   */
+  maxDimension: 8000,
+
+  /** 縦横それぞれの最小ピクセル数: 32px */
+  minDimension: 32,
+} as const
+
+/**
+ * 正規化後の出力設定
+ */
+export const IMAGE_OUTPUT_CONFIG = {
+  /** 出力形式: PNG（透過を保持するため） */
+  mimeType: 'image/png',
+
+  /** 出力画像の長辺の最大値: 1024px */
+  maxDimension: 1024,
+} as const
+
+/**
+ * ドット絵変換の設定
+ * MVのキャラクターに近い粗さ・色数をデフォルトにする
+ */
+export const PIXEL_ART_CONFIG = {
+  /** デフォルトの変換設定 */
+  defaultOptions: {
+    gridSize: 64,
+    colorCount: 16,
+    quantizeMethod: 'median-cut',
+    paletteName: null,
+    dithering: false,
+    outline: true,
+    outputSize: 512,
+  } as PixelArtOptions,
+
+  /** 選択可能なドット数 */
+  gridSizes: [32, 48, 64, 96],
+
+  /** この値未満のアルファは透明として扱う */
+  alphaThreshold: 128,
+
+  /** ディザリングの強さ（各チャンネルに加算する最大値） */
+  ditherStrength: 48,
+
+  /** k-meansの最大反復回数 */
+  kMeansIterations: 8,
+
+  /** 減色時にサンプリングする最大ピクセル数 */
+  maxSamples: 20000,
+} as const
+
+/**
+ * 背景除去の設定
+ */
+export const BACKGROUND_REMOVAL_CONFIG = {
+  /** 色の許容範囲のデフォルト値（0-100） */
+  defaultTolerance: 20,
+
+  /** マスク編集ブラシの太さのデフォルト値（px） */
+  defaultBrushSize: 24,
+
+  /** サーバー側エンジンのエンドポイント（未設定の場合は利用不可） */
+  serverEndpoint: process.env.NEXT_PUBLIC_IMAGE_API_URL
+    ? `${process.env.NEXT_PUBLIC_IMAGE_API_URL}/remove-background`
+    : null,
+} as const
+
+/**
+ * エラーメッセージ定数
+ * 一貫したエラーハンドリング用
+ */
+export const ERROR_MESSAGES: Record<ImageErrorCode, string> = {
+  /** 非対応の形式 */
+  UNSUPPORTED_TYPE:
+    '対応していないファイル形式です（JPEG・PNG・WebP・HEICに対応しています）',
+
+  /** ファイルサイズ超過 */
+  FILE_TOO_LARGE: `ファイルサイズは${IMAGE_VALIDATION_CONFIG.maxFileSize / 1024 / 1024}MBまでです`,
+
+  /** 画像サイズ超過 */
+  DIMENSIONS_TOO_LARGE: `画像の縦横は${IMAGE_VALIDATION_CONFIG.maxDimension}pxまでです`,
+
+  /** 画像サイズ不足 */
+  DIMENSIONS_TOO_SMALL: `画像の縦横は${IMAGE_VALIDATION_CONFIG.minDimension}px以上にしてください`,
+
+  /** HEICのデコード非対応 */
+  HEIC_NOT_SUPPORTED:
+    'お使いのブラウザはHEIC画像に対応していません。JPEGまたはPNGに変換してからお試しください',
+
+  /** デコード失敗 */
+  DECODE_FAILED:
+    '画像の読み込みに失敗しました。ファイルが壊れている可能性があります',
+
+  /** エンコード失敗 */
+  ENCODE_FAILED: '画像の変換に失敗しました',
+
+  /** ドット絵変換失敗 */
+  PIXEL_ART_FAILED: 'ドット絵への変換に失敗しました',
+
+  /** 背景除去失敗 */
+  BACKGROUND_REMOVAL_FAILED: '背景の除去に失敗しました',
+
+  /** 背景除去エンジン利用不可 */
+  BACKGROUND_REMOVER_UNAVAILABLE: 'この背景除去の方法は現在利用できません',
+
+  /** 切り抜き・回転失敗 */
+  TRANSFORM_FAILED: '画像の切り抜き・回転に失敗しました',
+}
@@ -0,0 +1,137 @@
+/**
+ * アルファマスク操作
+ *
+ * @description
+ * - 背景除去の結果をアルファマスクとして保持し、手動編集できるようにする
+ * - マスクを元画像に適用して透過PNGを作成する
+ */
+
+import { imageDataToBlob, readImageData } from './canvas'
+import type { AlphaMask, ImageResult, ProcessedImage } from './types'
+import { createImageError } from './validation'
+
+/**
+ * 全面不透明のマスクを作成する
+ */
+export const createOpaqueMask = (width: number, height: number): AlphaMask => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height).fill(255),
+})
+
+/**
+ * 画像のアルファチャンネルからマスクを作成する
+ */
+export const createMaskFromImageData = (imageData: ImageData): AlphaMask => {
+  const { width, height, data } = imageData
+  const mask = new Uint8ClampedArray(width * height)
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = data[i * 4 + 3]
+  }
+  return { width, height, data: mask }
+}
+
+/**
+ * マスクを複製する
+ */
+export const cloneMask = (mask: AlphaMask): AlphaMask => ({
+  ...mask,
+  data: new Uint8ClampedArray(mask.data),
+})
+
+/**
+ * 円形のブラシでマスクを塗る
+ *
+ * @param mask 対象のマスク（直接書き換える）
+ * @param centerX ブラシの中心X座標
+ * @param centerY ブラシの中心Y座標
+ * @param radius ブラシの半径
+ * @param value 塗る値（0: 消去、255: 復元）
+ * @returns 変更した範囲
+ */
+export const paintMask = (
+  mask: AlphaMask,
+  centerX: number,
+  centerY: number,
+  radius: number,
+  value: number,
+): { x: number; y: number; width: number; height: number } => {
+  const left = Math.max(0, Math.floor(centerX - radius))
+  const top = Math.max(0, Math.floor(centerY - radius))
+  const right = Math.min(mask.width - 1, Math.ceil(centerX + radius))
+  const bottom = Math.min(mask.height - 1, Math.ceil(centerY + radius))
+  const radiusSquared = radius * radius
+
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      const dx = x - centerX
+      const dy = y - centerY
+      if (dx * dx + dy * dy <= radiusSquared) {
+        mask.data[y * mask.width + x] = value
+      }
+    }
+  }
+
+  return {
+    x: left,
+    y: top,
+    width: Math.max(0, right - left + 1),
+    height: Math.max(0, bottom - top + 1),
+  }
+}
+
+/**
+ * ピクセルデータにマスクを適用する（元のアルファとマスクの小さい方を採用）
+ *
+ * @param imageData 対象のピクセルデータ（直接書き換える）
+ * @param source マスク適用前のピクセルデータ
+ * @param mask 適用するマスク
+ */
+export const applyMaskToImageData = (
+  imageData: ImageData,
+  source: ImageData,
+  mask: AlphaMask,
+): void => {
+  for (let i = 0; i < mask.data.length; i++) {
+    imageData.data[i * 4 + 3] = Math.min(source.data[i * 4 + 3], mask.data[i])
+  }
+}
+
+/**
+ * 画像にマスクを適用して透過PNGを作成する
+ *
+ * @param source 元画像
+ * @param mask 適用するマスク（元画像と同じサイズ）
+ */
+export const applyMask = async (
+  source: Blob,
+  mask: AlphaMask,
+): Promise<ImageResult<ProcessedImage>> => {
+  try {
+    const sourceData = await readImageData(source)
+    if (sourceData.width !== mask.width || sourceData.height !== mask.height) {
+      throw new Error('Mask size does not match the image')
+    }
+    const masked = new ImageData(
+      new Uint8ClampedArray(sourceData.data),
+      sourceData.width,
+      sourceData.height,
+    )
+    applyMaskToImageData(masked, sourceData, mask)
+
+    return {
+      success: true,
+      value: {
+        blob: await imageDataToBlob(masked),
+        width: masked.width,
+        height: masked.height,
+      },
+    }
+  } catch (error) {
+    console.error('applyMask: マスク適用エラー', error)
+    return {
+      success: false,
+      error: createImageError('BACKGROUND_REMOVAL_FAILED'),
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * 画像正規化処理
+ *
+ * @description
+ * - アップロード前の画像をバリデーションし、PNG形式に統一する
+ * - JPEG・PNG・WebP・HEICを受け付ける（HEICはブラウザがデコードできる場合のみ）
+ * - EXIFの回転情報を反映した向きで出力する
+ * - 長辺がIMAGE_OUTPUT_CONFIG.maxDimensionを超える場合は縮小する
+ *
+ * @pipeline
+ * 1. ファイルサイズ・先頭バイトによる形式判定・ヘッダーから読み取ったピクセルサイズの検証
+ * 2. デコード（EXIF回転補正）
+ * 3. ピクセルサイズの検証（ヘッダーから読み取れなかった形式のため）
+ * 4. 縮小してPNGにエンコード
+ */
+
+import {
+  canvasToBlob,
+  createCanvas,
+  decodeImage,
+  getContext2d,
+  getImageSize,
+  releaseImage,
+  type DecodedImage,
+} from './canvas'
+import { IMAGE_OUTPUT_CONFIG } from './config'
+import type { ImageResult, NormalizedImage } from './types'
+import {
+  createImageError,
+  validateImageDimensions,
+  validateImageFile,
+} from './validation'
+
+/**
+ * 画像を検証し、PNG形式に正規化する
+ *
+ * @param file アップロード対象のファイル
+ * @returns 正規化済みの画像、またはエラー
+ */
+export const normalizeImage = async (
+  file: Blob,
+): Promise<ImageResult<NormalizedImage>> => {
+  const validation = await validateImageFile(file)
+  if ('error' in validation) {
+    return { success: false, error: validation.error }
+  }
+
+  let image: DecodedImage
+  try {
+    image = await decodeImage(file)
+  } catch (error) {
+    console.error('normalizeImage: デコードエラー', error)
+    return {
+      success: false,
+      error: createImageError(
+        validation.type === 'image/heic'
+          ? 'HEIC_NOT_SUPPORTED'
+          : 'DECODE_FAILED',
+      ),
+    }
+  }
+
+  try {
+    const { width, height } = getImageSize(image)
+    const dimensionError = validateImageDimensions(width, height)
+    if (dimensionError) {
+      return { success: false, error: dimensionError }
+    }
+
+    // 長辺を上限に合わせて縮小（拡大はしない）
+    const scale = Math.min(
+      1,
+      IMAGE_OUTPUT_CONFIG.maxDimension / Math.max(width, height),
+    )
+    const outputWidth = Math.round(width * scale)
+    const outputHeight = Math.round(height * scale)
+
+    const canvas = createCanvas(outputWidth, outputHeight)
+    const context = getContext2d(canvas)
+    context.imageSmoothingQuality = 'high'
+    context.drawImage(image, 0, 0, outputWidth, outputHeight)
+
+    const blob = await canvasToBlob(canvas, IMAGE_OUTPUT_CONFIG.mimeType)
+    return {
+      success: true,
+      value: {
+        blob,
+        width: outputWidth,
+        height: outputHeight,
+        sourceType: validation.type,
+      },
+    }
+  } catch (error) {
+    console.error('normalizeImage: エンコードエラー', error)
+    return { success: false, error: createImageError('ENCODE_FAILED') }
+  } finally {
+    releaseImage(image)
+  }
+}
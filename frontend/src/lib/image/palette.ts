@@ -0,0 +1,181 @@
+/**
+ * カラーパレット
+ *
+ * @description
+ * - twinkle nightの背景画像から抽出したパレットのプリセット
+ * - 任意の画像からパレットを抽出する処理
+ * - 色の表現（#RRGGBB / RgbColor）の相互変換
+ *
+ * @presets
+ * - city-night: twinkle-bg.png の夜空・星と twinkle-city-short-transparent.png の街並みの色
+ * - neon: 夜空と星の色に、波形の黄色・オレンジとネオンの差し色を加えたもの
+ * - somunia-pastel: twinkle-bg.png の明るい色域を中心にしたパステル調
+ */
+
+import {
+  decodeImage,
+  createCanvas,
+  getContext2d,
+  getImageSize,
+  releaseImage,
+} from './canvas'
+import { PIXEL_ART_CONFIG } from './config'
+import { medianCut } from './quantize'
+import type { Palette, RgbColor } from './types'
+
+/**
+ * パレットのプリセット
+ * 背景画像の色ヒストグラムをmedian-cutで集約した値を元にしている
+ */
+export const PALETTE_PRESETS: Palette[] = [
+  {
+    name: 'city-night',
+    label: 'シティナイト',
+    colors: [
+      '#18130F',
+      '#1E1718',
+      '#2B4466',
+      '#2F4B70',
+      '#33517A',
+      '#3A5077',
+      '#829581',
+      '#FCFFA8',
+    ],
+  },
+  {
+    name: 'neon',
+    label: 'ネオン',
+    colors: [
+      '#191310',
+      '#33517A',
+      '#5B3C88',
+      '#FF5FA2',
+      '#5CE1E6',
+      '#B2C090',
+      '#FFA500',
+      '#FCFFA8',
+    ],
+  },
+  {
+    name: 'somunia-pastel',
+    label: 'somuniaパステル',
+    colors: [
+      '#3A5077',
+      '#85988A',
+      '#A9B9D6',
+      '#A0B092',
+      '#F2C9D8',
+      '#BDCA9A',
+      '#D8E2A4',
+      '#F7FCA8',
+    ],
+  },
+]
+
+/**
+ * 識別子からプリセットのパレットを取得する
+ */
+export const findPalette = (name: string | null): Palette | undefined =>
+  PALETTE_PRESETS.find((palette) => palette.name === name)
+
+/**
+ * #RRGGBB形式の文字列をRgbColorに変換する
+ */
+export const hexToRgb = (hex: string): RgbColor => {
+  const value = parseInt(hex.replace('#', ''), 16)
+  return {
+    r: (value >> 16) & 0xff,
+    g: (value >> 8) & 0xff,
+    b: value & 0xff,
+  }
+}
+
+/**
+ * RgbColorを#RRGGBB形式の文字列に変換する
+ */
+export const rgbToHex = ({ r, g, b }: RgbColor): string =>
+  `#${[r, g, b]
+    .map((value) => Math.round(value).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase()}`
+
+/**
+ * 明るさ（ITU-R BT.601の輝度）
+ */
+const luminance = ({ r, g, b }: RgbColor): number =>
+  0.299 * r + 0.587 * g + 0.114 * b
+
+/**
+ * パレットをRgbColorの配列に変換する
+ */
+export const paletteToRgb = (palette: Palette): RgbColor[] =>
+  palette.colors.map(hexToRgb)
+
+/**
+ * 画像からパレットを抽出する
+ * 透明部分は除外し、median-cutで集約した色を暗い順に並べる
+ *
+ * @param source 抽出元の画像
+ * @param colorCount 抽出する色数
+ * @param name 作成するパレットの識別子
+ * @param label 作成するパレットの表示名
+ * @throws Error 画像のデコードに失敗した場合
+ */
+export const extractPalette = async (
+  source: Blob,
+  colorCount: number,
+  name = 'custom',
+  label = 'カスタム',
+): Promise<Palette> => {
+  const image = await decodeImage(source)
+  try {
+    // 大きな画像でも処理負荷が一定になるよう縮小してから集計
+    const { width, height } = getImageSize(image)
+    const scale = Math.min(1, 256 / Math.max(width, height))
+    const sampleWidth = Math.max(1, Math.round(width * scale))
+    const sampleHeight = Math.max(1, Math.round(height * scale))
+
+    const canvas = createCanvas(sampleWidth, sampleHeight)
+    const context = getContext2d(canvas)
+    context.drawImage(image, 0, 0, sampleWidth, sampleHeight)
+    const { data } = context.getImageData(0, 0, sampleWidth, sampleHeight)
+
+    const colors: RgbColor[] = []
+    for (let offset = 0; offset < data.length; offset += 4) {
+      if (data[offset + 3] < PIXEL_ART_CONFIG.alphaThreshold) {
+        continue
+      }
+      colors.push({ r: data[offset], g: data[offset + 1], b: data[offset + 2] })
+    }
+
+    // 同じ色の重複を除いてから集約する
+    const unique = Array.from(
+      new Map(colors.map((color) => [rgbToHex(color), color])).values(),
+    )
+    const palette = medianCut(unique, colorCount).sort(
+      (a, b) => luminance(a) - luminance(b),
+    )
+
+    return { name, label, colors: palette.map(rgbToHex) }
+  } finally {
+    releaseImage(image)
+  }
+}
+
+/**
+ * URLの画像からパレットを抽出する
+ *
+ * @throws Error 取得またはデコードに失敗した場合
+ */
+export const extractPaletteFromUrl = async (
+  url: string,
+  colorCount: number,
+  name?: string,
+  label?: string,
+): Promise<Palette> => {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status}`)
+  }
+  return extractPalette(await response.blob(), colorCount, name, label)
+}
@@ -0,0 +1,213 @@
+/**
+ * ドット絵変換処理
+ *
+ * @description
+ * - アップロードされたアバターをMVのようなドット絵に変換する
+ * - ブラウザ内（Canvas / OffscreenCanvas）で完結し、バックエンドに依存しない
+ *
+ * @pipeline
+ * 1. 長辺がgridSizeドットになるよう縮小
+ * 2. アルファを二値化（半透明をなくす）
+ * 3. median-cut / k-meansで減色（オプションで組織的ディザリング）
+ * 4. 輪郭線を描画（オプション）
+ * 5. ニアレストネイバーで拡大してPNGにエンコード
+ */
+
+import {
+  canvasToBlob,
+  createCanvas,
+  decodeImage,
+  getContext2d,
+  getImageSize,
+  releaseImage,
+} from './canvas'
+import { PIXEL_ART_CONFIG } from './config'
+import { colorDistance, findNearestColorIndex, quantize } from './quantize'
+import type {
+  ImageResult,
+  PixelArtOptions,
+  ProcessedImage,
+  RgbColor,
+} from './types'
+import { createImageError } from './validation'
+
+/** 4x4のBayer行列（組織的ディザリング用） */
+const BAYER_MATRIX = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+]
+
+/** 輪郭線用に上下左右へ確保する余白（ドット） */
+const OUTLINE_PADDING = 1
+
+/**
+ * 指定座標の色を取得する
+ */
+const getPixel = (data: Uint8ClampedArray, offset: number): RgbColor => ({
+  r: data[offset],
+  g: data[offset + 1],
+  b: data[offset + 2],
+})
+
+/**
+ * 組織的ディザリングのオフセットを加えた色を返す
+ */
+const applyDither = (color: RgbColor, x: number, y: number): RgbColor => {
+  const threshold = BAYER_MATRIX[y % 4][x % 4] / 16 - 0.5
+  const offset = threshold * PIXEL_ART_CONFIG.ditherStrength
+  const clamp = (value: number) => Math.min(255, Math.max(0, value + offset))
+  return { r: clamp(color.r), g: clamp(color.g), b: clamp(color.b) }
+}
+
+/**
+ * パレットの中で最も暗い色を返す（輪郭線の色に使用）
+ */
+const darkestColor = (palette: RgbColor[]): RgbColor =>
+  palette.reduce((darkest, color) =>
+    colorDistance(color, { r: 0, g: 0, b: 0 }) <
+    colorDistance(darkest, { r: 0, g: 0, b: 0 })
+      ? color
+      : darkest,
+  )
+
+/**
+ * 不透明ピクセルに隣接する透明ピクセルを輪郭線の色で塗る
+ */
+const drawOutline = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  color: RgbColor,
+): void => {
+  const alphaThreshold = PIXEL_ART_CONFIG.alphaThreshold
+  const isOpaque = (x: number, y: number): boolean =>
+    x >= 0 &&
+    y >= 0 &&
+    x < width &&
+    y < height &&
+    data[(y * width + x) * 4 + 3] >= alphaThreshold
+
+  const outlinePixels: number[] = []
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isOpaque(x, y)) {
+        continue
+      }
+      if (
+        isOpaque(x - 1, y) ||
+        isOpaque(x + 1, y) ||
+        isOpaque(x, y - 1) ||
+        isOpaque(x, y + 1)
+      ) {
+        outlinePixels.push((y * width + x) * 4)
+      }
+    }
+  }
+
+  // 判定中に塗ると輪郭が広がっていくため、まとめて塗る
+  for (const offset of outlinePixels) {
+    data[offset] = color.r
+    data[offset + 1] = color.g
+    data[offset + 2] = color.b
+    data[offset + 3] = 255
+  }
+}
+
+/**
+ * 画像をドット絵に変換する
+ *
+ * @param source 変換元の画像（PNGに正規化済みのもの）
+ * @param options 変換設定
+ * @param palette 使用するパレット（省略時は画像から減色パレットを作成）
+ * @returns ドット絵の画像、またはエラー
+ */
+export const convertToPixelArt = async (
+  source: Blob,
+  options: PixelArtOptions = PIXEL_ART_CONFIG.defaultOptions,
+  palette?: RgbColor[],
+): Promise<ImageResult<ProcessedImage>> => {
+  try {
+    const image = await decodeImage(source)
+    const { width, height } = getImageSize(image)
+
+    // 1. 長辺がgridSizeになるように縮小
+    const scale = options.gridSize / Math.max(width, height)
+    const gridWidth = Math.max(1, Math.round(width * scale))
+    const gridHeight = Math.max(1, Math.round(height * scale))
+    const padding = options.outline ? OUTLINE_PADDING : 0
+    const canvasWidth = gridWidth + padding * 2
+    const canvasHeight = gridHeight + padding * 2
+
+    const gridCanvas = createCanvas(canvasWidth, canvasHeight)
+    const gridContext = getContext2d(gridCanvas)
+    gridContext.imageSmoothingEnabled = true
+    gridContext.imageSmoothingQuality = 'high'
+    gridContext.drawImage(image, padding, padding, gridWidth, gridHeight)
+    releaseImage(image)
+
+    const imageData = gridContext.getImageData(0, 0, canvasWidth, canvasHeight)
+    const data = imageData.data
+
+    // 2. アルファの二値化と減色対象の色の収集
+    const opaqueColors: RgbColor[] = []
+    for (let offset = 0; offset < data.length; offset += 4) {
+      if (data[offset + 3] < PIXEL_ART_CONFIG.alphaThreshold) {
+        data[offset + 3] = 0
+        continue
+      }
+      data[offset + 3] = 255
+      opaqueColors.push(getPixel(data, offset))
+    }
+
+    // 3. 減色（ディザリングはパレットへの割り当て時に適用）
+    const colors =
+      palette && palette.length > 0
+        ? palette
+        : quantize(opaqueColors, options.colorCount, options.quantizeMethod)
+    if (colors.length > 0) {
+      for (let y = 0; y < canvasHeight; y++) {
+        for (let x = 0; x < canvasWidth; x++) {
+          const offset = (y * canvasWidth + x) * 4
+          if (data[offset + 3] === 0) {
+            continue
+          }
+          const pixel = getPixel(data, offset)
+          const target = options.dithering ? applyDither(pixel, x, y) : pixel
+          const nearest = colors[findNearestColorIndex(target, colors)]
+          data[offset] = nearest.r
+          data[offset + 1] = nearest.g
+          data[offset + 2] = nearest.b
+        }
+      }
+
+      // 4. 輪郭線
+      if (options.outline) {
+        drawOutline(data, canvasWidth, canvasHeight, darkestColor(colors))
+      }
+    }
+    gridContext.putImageData(imageData, 0, 0)
+
+    // 5. ニアレストネイバーで整数倍に拡大
+    const pixelSize = Math.max(
+      1,
+      Math.round(options.outputSize / Math.max(canvasWidth, canvasHeight)),
+    )
+    const outputWidth = canvasWidth * pixelSize
+    const outputHeight = canvasHeight * pixelSize
+    const outputCanvas = createCanvas(outputWidth, outputHeight)
+    const outputContext = getContext2d(outputCanvas)
+    outputContext.imageSmoothingEnabled = false
+    outputContext.drawImage(gridCanvas, 0, 0, outputWidth, outputHeight)
+
+    const blob = await canvasToBlob(outputCanvas)
+    return {
+      success: true,
+      value: { blob, width: outputWidth, height: outputHeight },
+    }
+  } catch (error) {
+    console.error('convertToPixelArt: 変換エラー', error)
+    return { success: false, error: createImageError('PIXEL_ART_FAILED') }
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * 減色処理
+ *
+ * @description
+ * - 画像の色を指定した色数のパレットにまとめる
+ * - median-cut: 色の分布を最も広いチャンネルの中央値で再帰的に分割
+ * - k-means: median-cutの結果を初期値としてクラスタリングで精度を上げる
+ */
+
+import { PIXEL_ART_CONFIG } from './config'
+import type { QuantizeMethod, RgbColor } from './types'
+
+/**
+ * 2色間の距離の2乗（RGB空間のユークリッド距離）
+ */
+export const colorDistance = (a: RgbColor, b: RgbColor): number => {
+  const dr = a.r - b.r
+  const dg = a.g - b.g
+  const db = a.b - b.b
+  return dr * dr + dg * dg + db * db
+}
+
+/**
+ * パレットの中から最も近い色のインデックスを返す
+ */
+export const findNearestColorIndex = (
+  color: RgbColor,
+  palette: RgbColor[],
+): number => {
+  let nearestIndex = 0
+  let nearestDistance = Infinity
+  for (let i = 0; i < palette.length; i++) {
+    const distance = colorDistance(color, palette[i])
+    if (distance < nearestDistance) {
+      nearestDistance = distance
+      nearestIndex = i
+    }
+  }
+  return nearestIndex
+}
+
+/**
+ * 色の平均を計算する
+ */
+const averageColor = (colors: RgbColor[]): RgbColor => {
+  const sum = colors.reduce(
+    (acc, color) => ({
+      r: acc.r + color.r,
+      g: acc.g + color.g,
+      b: acc.b + color.b,
+    }),
+    { r: 0, g: 0, b: 0 },
+  )
+  return {
+    r: Math.round(sum.r / colors.length),
+    g: Math.round(sum.g / colors.length),
+    b: Math.round(sum.b / colors.length),
+  }
+}
+
+/**
+ * 色の集合で最も値の幅が広いチャンネルとその幅を返す
+ */
+const widestChannel = (
+  colors: RgbColor[],
+): { channel: keyof RgbColor; range: number } => {
+  const channels: (keyof RgbColor)[] = ['r', 'g', 'b']
+  return channels
+    .map((channel) => {
+      let min = 255
+      let max = 0
+      for (const color of colors) {
+        min = Math.min(min, color[channel])
+        max = Math.max(max, color[channel])
+      }
+      return { channel, range: max - min }
+    })
+    .reduce((widest, current) =>
+      current.range > widest.range ? current : widest,
+    )
+}
+
+/**
+ * median-cut法で減色パレットを作成する
+ *
+ * @param colors 対象の色
+ * @param colorCount パレットの色数
+ */
+export const medianCut = (
+  colors: RgbColor[],
+  colorCount: number,
+): RgbColor[] => {
+  if (colors.length === 0) {
+    return []
+  }
+
+  const boxes: RgbColor[][] = [colors]
+  while (boxes.length < colorCount) {
+    // 最も幅の広いボックスを分割対象にする
+    let targetIndex = -1
+    let targetRange = 0
+    let targetChannel: keyof RgbColor = 'r'
+    boxes.forEach((box, index) => {
+      if (box.length < 2) {
+        return
+      }
+      const { channel, range } = widestChannel(box)
+      if (range > targetRange) {
+        targetIndex = index
+        targetRange = range
+        targetChannel = channel
+      }
+    })
+
+    // これ以上分割できない（色数が足りない）
+    if (targetIndex === -1) {
+      break
+    }
+
+    const sorted = [...boxes[targetIndex]].sort(
+      (a, b) => a[targetChannel] - b[targetChannel],
+    )
+    const median = Math.floor(sorted.length / 2)
+    boxes.splice(targetIndex, 1, sorted.slice(0, median), sorted.slice(median))
+  }
+
+  return boxes.map(averageColor)
+}
+
+/**
+ * k-means法で減色パレットを作成する
+ * 初期値にはmedian-cutの結果を使用するため結果は決定的
+ *
+ * @param colors 対象の色
+ * @param colorCount パレットの色数
+ */
+export const kMeans = (colors: RgbColor[], colorCount: number): RgbColor[] => {
+  let centroids = medianCut(colors, colorCount)
+
+  for (let i = 0; i < PIXEL_ART_CONFIG.kMeansIterations; i++) {
+    const clusters: RgbColor[][] = centroids.map(() => [])
+    for (const color of colors) {
+      clusters[findNearestColorIndex(color, centroids)].push(color)
+    }
+
+    const next = clusters.map((cluster, index) =>
+      cluster.length > 0 ? averageColor(cluster) : centroids[index],
+    )
+    const converged = next.every(
+      (centroid, index) => colorDistance(centroid, centroids[index]) === 0,
+    )
+    centroids = next
+    if (converged) {
+      break
+    }
+  }
+
+  return centroids
+}
+
+/**
+ * 指定したアルゴリズムで減色パレットを作成する
+ * 処理負荷を抑えるため、色数が多い場合は間引いてから計算する
+ */
+export const quantize = (
+  colors: RgbColor[],
+  colorCount: number,
+  method: QuantizeMethod,
+): RgbColor[] => {
+  const step = Math.max(
+    1,
+    Math.ceil(colors.length / PIXEL_ART_CONFIG.maxSamples),
+  )
+  const samples = step === 1 ? colors : colors.filter((_, i) => i % step === 0)
+
+  return method === 'k-means'
+    ? kMeans(samples, colorCount)
+    : medianCut(samples, colorCount)
+}
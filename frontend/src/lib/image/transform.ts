@@ -0,0 +1,94 @@
+/**
+ * 画像の回転・反転・切り抜き
+ *
+ * @description
+ * - 回転・左右反転を適用した後、切り抜き範囲で切り抜く
+ * - 任意角度の回転では、回転後の画像が収まるようにキャンバスを広げる（余白は透明）
+ */
+
+import {
+  canvasToBlob,
+  createCanvas,
+  decodeImage,
+  getContext2d,
+  getImageSize,
+  releaseImage,
+} from './canvas'
+import type { ImageResult, ImageTransform, ProcessedImage } from './types'
+import { createImageError } from './validation'
+
+/** 変換なし */
+export const IDENTITY_TRANSFORM: ImageTransform = {
+  rotation: 0,
+  flipX: false,
+  crop: null,
+}
+
+/**
+ * 変換が何もしないかどうか
+ */
+export const isIdentityTransform = (transform: ImageTransform): boolean =>
+  transform.rotation % 360 === 0 && !transform.flipX && transform.crop === null
+
+/**
+ * 画像に回転・反転・切り抜きを適用する
+ *
+ * @param source 対象の画像
+ * @param transform 適用する変換
+ */
+export const transformImage = async (
+  source: Blob,
+  transform: ImageTransform,
+): Promise<ImageResult<ProcessedImage>> => {
+  try {
+    const image = await decodeImage(source)
+    const { width, height } = getImageSize(image)
+
+    // 1. 回転・反転（回転後の外接矩形のサイズに合わせる）
+    const radian = (transform.rotation * Math.PI) / 180
+    const cos = Math.abs(Math.cos(radian))
+    const sin = Math.abs(Math.sin(radian))
+    const rotatedWidth = Math.round(width * cos + height * sin)
+    const rotatedHeight = Math.round(width * sin + height * cos)
+
+    const rotatedCanvas = createCanvas(rotatedWidth, rotatedHeight)
+    const rotatedContext = getContext2d(rotatedCanvas)
+    rotatedContext.translate(rotatedWidth / 2, rotatedHeight / 2)
+    rotatedContext.rotate(radian)
+    rotatedContext.scale(transform.flipX ? -1 : 1, 1)
+    rotatedContext.drawImage(image, -width / 2, -height / 2)
+    releaseImage(image)
+
+    // 2. 切り抜き（割合からピクセルに換算）
+    const crop = transform.crop ?? { x: 0, y: 0, width: 100, height: 100 }
+    const cropX = Math.round((crop.x / 100) * rotatedWidth)
+    const cropY = Math.round((crop.y / 100) * rotatedHeight)
+    const cropWidth = Math.max(1, Math.round((crop.width / 100) * rotatedWidth))
+    const cropHeight = Math.max(
+      1,
+      Math.round((crop.height / 100) * rotatedHeight),
+    )
+
+    const outputCanvas = createCanvas(cropWidth, cropHeight)
+    getContext2d(outputCanvas).drawImage(
+      rotatedCanvas,
+      cropX,
+      cropY,
+      cropWidth,
+      cropHeight,
+      0,
+      0,
+      cropWidth,
+      cropHeight,
+    )
+
+    const blob = await canvasToBlob(outputCanvas)
+    return {
+      success: true,
+      value: { blob, width: cropWidth, height: cropHeight },
+    }
+  } catch (error) {
+    console.error('transformImage: 変換エラー', error)
+    return { success: false, error: createImageError('TRANSFORM_FAILED') }
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * 画像処理関連の型定義
+ *
+ * @description
+ * - アップロード前のバリデーション・正規化で扱う型
+ * - エラーは例外ではなく結果型で返し、UI側でメッセージを表示する
+ */
+
+/**
+ * 受け付ける画像形式（ファイルの先頭バイトから判定）
+ */
+export type ImageMimeType =
+  | 'image/jpeg'
+  | 'image/png'
+  | 'image/webp'
+  | 'image/heic'
+
+/**
+ * 画像処理エラーのコード
+ */
+export type ImageErrorCode =
+  | 'UNSUPPORTED_TYPE'
+  | 'FILE_TOO_LARGE'
+  | 'DIMENSIONS_TOO_LARGE'
+  | 'DIMENSIONS_TOO_SMALL'
+  | 'HEIC_NOT_SUPPORTED'
+  | 'DECODE_FAILED'
+  | 'ENCODE_FAILED'
+  | 'PIXEL_ART_FAILED'
+  | 'BACKGROUND_REMOVAL_FAILED'
+  | 'BACKGROUND_REMOVER_UNAVAILABLE'
+  | 'TRANSFORM_FAILED'
+
+/**
+ * 画像処理エラー
+ */
+export type ImageError = {
+  /** エラーコード */
+  code: ImageErrorCode
+  /** ユーザー向けのエラーメッセージ */
+  message: string
+}
+
+/**
+ * 画像処理の結果
+ */
+export type ImageResult<T> =
+  | { success: true; value: T }
+  | { success: false; error: ImageError }
+
+/**
+ * 加工済みの画像
+ */
+export type ProcessedImage = {
+  /** PNG形式の画像データ */
+  blob: Blob
+  /** 出力画像の幅（px） */
+  width: number
+  /** 出力画像の高さ（px） */
+  height: number
+}
+
+/**
+ * 正規化済みの画像
+ */
+export type NormalizedImage = ProcessedImage & {
+  /** 元画像の形式 */
+  sourceType: ImageMimeType
+}
+
+/**
+ * RGBの色（各チャンネル0-255）
+ */
+export type RgbColor = {
+  r: number
+  g: number
+  b: number
+}
+
+/**
+ * 名前付きのカラーパレット
+ * ドット絵の減色や波形のグラデーションなど、色の組み合わせを共有する
+ */
+export type Palette = {
+  /** 識別子 */
+  name: string
+  /** 表示名 */
+  label: string
+  /** 色（#RRGGBB形式、暗い色から明るい色の順） */
+  colors: string[]
+}
+
+/**
+ * 減色アルゴリズム
+ * - median-cut: 色空間を再帰的に分割（高速・決定的）
+ * - k-means: median-cutの結果を初期値にクラスタリング（高品質・低速）
+ */
+export type QuantizeMethod = 'median-cut' | 'k-means'
+
+/**
+ * ドット絵変換の設定
+ */
+export type PixelArtOptions = {
+  /** 長辺のドット数 */
+  gridSize: number
+  /** 減色後の色数 */
+  colorCount: number
+  /** 減色アルゴリズム */
+  quantizeMethod: QuantizeMethod
+  /** 使用するパレットの識別子（nullの場合は画像から減色パレットを作成） */
+  paletteName: string | null
+  /** ディザリング（Bayer行列による組織的ディザ）を適用するか */
+  dithering: boolean
+  /** 輪郭線を描画するか */
+  outline: boolean
+  /** 出力画像の長辺の目安（px）。ドット数の整数倍に拡大する */
+  outputSize: number
+}
+
+/**
+ * アルファマスク
+ * 各ピクセルの不透明度（0: 透明 - 255: 不透明）を画像と同じサイズで保持する
+ */
+export type AlphaMask = {
+  /** マスクの幅（px） */
+  width: number
+  /** マスクの高さ（px） */
+  height: number
+  /** 不透明度（width * height） */
+  data: Uint8ClampedArray
+}
+
+/**
+ * 切り抜き範囲（画像に対する割合、0-100）
+ */
+export type CropArea = {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * 画像の向き・切り抜きの変換
+ * 回転・反転を適用した画像に対して切り抜きを行う
+ */
+export type ImageTransform = {
+  /** 回転角度（度、時計回り） */
+  rotation: number
+  /** 左右反転するか */
+  flipX: boolean
+  /** 切り抜き範囲（nullの場合は切り抜かない） */
+  crop: CropArea | null
+}
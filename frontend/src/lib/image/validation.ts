@@ -0,0 +1,216 @@
+/**
+ * 画像バリデーション
+ *
+ * @description
+ * - 拡張子やFile.typeではなく、ファイルの先頭バイト（マジックナンバー）から形式を判定
+ * - ファイルサイズの上限チェック
+ * - ピクセルサイズの上限・下限チェック（PNG・JPEG・WebPはデコード前にヘッダーから読み取る）
+ */
+
+import { ERROR_MESSAGES, IMAGE_VALIDATION_CONFIG } from './config'
+import type { ImageError, ImageErrorCode, ImageMimeType } from './types'
+
+/** HEIF系コンテナのブランド */
+const HEIC_BRANDS = [
+  'heic',
+  'heix',
+  'hevc',
+  'hevx',
+  'heim',
+  'heis',
+  'mif1',
+  'msf1',
+]
+
+/**
+ * エラーコードからエラーオブジェクトを作成する
+ */
+export const createImageError = (code: ImageErrorCode): ImageError => ({
+  code,
+  message: ERROR_MESSAGES[code],
+})
+
+/**
+ * 先頭バイトから画像形式を判定する
+ *
+ * @param blob 判定対象のファイル
+ * @returns 判定できた形式（非対応の場合はnull）
+ */
+export const sniffMimeType = async (
+  blob: Blob,
+): Promise<ImageMimeType | null> => {
+  const bytes = new Uint8Array(await blob.slice(0, 16).arrayBuffer())
+  const ascii = (start: number, end: number): string =>
+    String.fromCharCode(...bytes.subarray(start, end))
+
+  // JPEG: FF D8 FF
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'image/jpeg'
+  }
+
+  // PNG: 89 50 4E 47 0D 0A 1A 0A
+  const pngSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+  if (pngSignature.every((value, index) => bytes[index] === value)) {
+    return 'image/png'
+  }
+
+  // WebP: "RIFF" ???? "WEBP"
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'image/webp'
+  }
+
+  // HEIC: ???? "ftyp" + ブランド
+  if (ascii(4, 8) === 'ftyp' && HEIC_BRANDS.includes(ascii(8, 12))) {
+    return 'image/heic'
+  }
+
+  return null
+}
+
+/**
+ * デコードせずに、ファイルのヘッダーから画像のピクセルサイズを読み取る
+ * 巨大な画像をデコードしてメモリを確保する前に、サイズの上限を検証するために使う
+ *
+ * @param blob 読み取り対象のファイル
+ * @param type 先頭バイトから判定した形式
+ * @returns ピクセルサイズ（HEICなど、ヘッダーから読み取れない場合はnull）
+ */
+export const readImageDimensions = async (
+  blob: Blob,
+  type: ImageMimeType,
+): Promise<{ width: number; height: number } | null> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  const view = new DataView(bytes.buffer)
+  const ascii = (start: number, end: number): string =>
+    String.fromCharCode(...bytes.subarray(start, end))
+
+  switch (type) {
+    case 'image/png': {
+      // シグネチャの直後のIHDRチャンクに幅・高さ（ビッグエンディアン）
+      if (bytes.length < 24 || ascii(12, 16) !== 'IHDR') {
+        return null
+      }
+      return { width: view.getUint32(16), height: view.getUint32(20) }
+    }
+
+    case 'image/jpeg': {
+      // SOFマーカー（C0〜CF、ただしDHT・JPG・DACを除く）までセグメントを読み飛ばす
+      let offset = 2
+      while (offset + 9 <= bytes.length) {
+        if (bytes[offset] !== 0xff) {
+          return null
+        }
+        const marker = bytes[offset + 1]
+        if (marker === 0xff) {
+          // 埋め草のFF
+          offset += 1
+          continue
+        }
+        if (
+          marker >= 0xc0 &&
+          marker <= 0xcf &&
+          marker !== 0xc4 &&
+          marker !== 0xc8 &&
+          marker !== 0xcc
+        ) {
+          return {
+            width: view.getUint16(offset + 7),
+            height: view.getUint16(offset + 5),
+          }
+        }
+        if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+          // 長さを持たないマーカー
+          offset += 2
+          continue
+        }
+        offset += 2 + view.getUint16(offset + 2)
+      }
+      return null
+    }
+
+    case 'image/webp': {
+      if (bytes.length < 30) {
+        return null
+      }
+      switch (ascii(12, 16)) {
+        case 'VP8 ':
+          // 非可逆: キーフレームのヘッダーに14bitずつ（リトルエンディアン）
+          return {
+            width: view.getUint16(26, true) & 0x3fff,
+            height: view.getUint16(28, true) & 0x3fff,
+          }
+        case 'VP8L': {
+          // 可逆: シグネチャ(0x2F)の後に「幅-1」「高さ-1」が14bitずつ
+          const bits = view.getUint32(21, true)
+          return {
+            width: (bits & 0x3fff) + 1,
+            height: ((bits >> 14) & 0x3fff) + 1,
+          }
+        }
+        case 'VP8X':
+          // 拡張形式: キャンバスの「幅-1」「高さ-1」が24bitずつ
+          return {
+            width: (view.getUint32(24, true) & 0xffffff) + 1,
+            height: (view.getUint32(27, true) & 0xffffff) + 1,
+          }
+        default:
+          return null
+      }
+    }
+
+    default:
+      return null
+  }
+}
+
+/**
+ * デコード前のファイルを検証する
+ *
+ * @param file 検証対象のファイル
+ * @returns 判定した形式、またはエラー
+ */
+export const validateImageFile = async (
+  file: Blob,
+): Promise<{ type: ImageMimeType } | { error: ImageError }> => {
+  if (file.size > IMAGE_VALIDATION_CONFIG.maxFileSize) {
+    return { error: createImageError('FILE_TOO_LARGE') }
+  }
+
+  const type = await sniffMimeType(file)
+  if (!type || !IMAGE_VALIDATION_CONFIG.acceptedTypes.includes(type)) {
+    return { error: createImageError('UNSUPPORTED_TYPE') }
+  }
+
+  // ヘッダーから読み取れる形式は、デコードする前にピクセルサイズを検証する
+  const dimensions = await readImageDimensions(file, type)
+  if (dimensions) {
+    const dimensionError = validateImageDimensions(
+      dimensions.width,
+      dimensions.height,
+    )
+    if (dimensionError) {
+      return { error: dimensionError }
+    }
+  }
+
+  return { type }
+}
+
+/**
+ * ピクセルサイズを検証する
+ *
+ * @returns 問題がなければnull
+ */
+export const validateImageDimensions = (
+  width: number,
+  height: number,
+): ImageError | null => {
+  const { maxDimension, minDimension } = IMAGE_VALIDATION_CONFIG
+  if (width > maxDimension || height > maxDimension) {
+    return createImageError('DIMENSIONS_TOO_LARGE')
+  }
+  if (width < minDimension || height < minDimension) {
+    return createImageError('DIMENSIONS_TOO_SMALL')
+  }
+  return null
+}
@@ -0,0 +1,35 @@
+/**
+ * セキュリティルールのテスト環境
+ *
+ * @description
+ * - firestore.rules・storage.rules を読み込んだエミュレータのテスト環境を作成する
+ * - エミュレータの接続先は `firebase emulators:exec` が設定する環境変数から読み込む
+ */
+
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import {
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing'
+
+/** テスト用のプロジェクトID（demo- で始まるIDは本番のプロジェクトに接続しない） */
+export const PROJECT_ID = 'demo-twinkle-night'
+
+/** テストで使うユーザー */
+export const ALICE = 'alice'
+export const BOB = 'bob'
+
+/**
+ * ルールを読み込んだテスト環境を作成する
+ */
+export const createRulesTestEnvironment = (): Promise<RulesTestEnvironment> =>
+  initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {
+      rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8'),
+    },
+    storage: {
+      rules: readFileSync(resolve(__dirname, '../../storage.rules'), 'utf8'),
+    },
+  })
@@ -0,0 +1,361 @@
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing'
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore'
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest'
+import { ALICE, BOB, createRulesTestEnvironment } from './environment'
+
+let testEnv: RulesTestEnvironment
+
+/** ユーザーごとのFirestore（ルールを適用する） */
+const firestoreOf = (uid: string) =>
+  testEnv.authenticatedContext(uid).firestore()
+
+/**
+ * ルールを無効にしてユーザーの枠と保存済みのアバターを用意する
+ */
+const seedUser = async (
+  uid: string,
+  avatarIds: string[],
+  savedIds: string[] = [],
+) => {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore()
+    await setDoc(doc(db, 'users', uid), { avatarIds })
+    for (const id of savedIds) {
+      await setDoc(doc(db, 'users', uid, 'avatars', id), {
+        url: `https://example.com/${id}.png`,
+        groundAnchor: 1,
+        choreography: 'float',
+        path: `users/${uid}/avatars/${id}.png`,
+        createdAt: new Date(),
+      })
+    }
+  })
+}
+
+/** 保存するアバター */
+const avatarData = (uid: string, id: string) => ({
+  url: `https://example.com/${id}.png`,
+  groundAnchor: 0.9,
+  choreography: 'walk',
+  path: `users/${uid}/avatars/${id}.png`,
+  createdAt: serverTimestamp(),
+})
+
+/** StorageのダウンロードURL */
+const downloadUrl = (uid: string, id: string) =>
+  `https://firebasestorage.googleapis.com/v0/b/demo-twinkle-night.appspot.com/o/users%2F${uid}%2Favatars%2F${id}.png?alt=media&token=xxx`
+
+beforeAll(async () => {
+  testEnv = await createRulesTestEnvironment()
+})
+
+afterAll(async () => {
+  await testEnv.cleanup()
+})
+
+beforeEach(async () => {
+  await testEnv.clearFirestore()
+})
+
+describe('users/{uid}', () => {
+  it('本人は3枠まで作成・閲覧でき、他人は閲覧できない', async () => {
+    const userRef = doc(firestoreOf(ALICE), 'users', ALICE)
+    await assertSucceeds(setDoc(userRef, { avatarIds: ['a', 'b', 'c'] }))
+    await assertSucceeds(getDoc(userRef))
+    await assertFails(getDoc(doc(firestoreOf(BOB), 'users', ALICE)))
+  })
+
+  it('4枠以上・他人の枠・余分な項目は作成できない', async () => {
+    await assertFails(
+      setDoc(doc(firestoreOf(ALICE), 'users', ALICE), {
+        avatarIds: ['a', 'b', 'c', 'd'],
+      }),
+    )
+    await assertFails(
+      setDoc(doc(firestoreOf(BOB), 'users', ALICE), { avatarIds: ['a'] }),
+    )
+    await assertFails(
+      setDoc(doc(firestoreOf(ALICE), 'users', ALICE), {
+        avatarIds: ['a'],
+        isAdmin: true,
+      }),
+    )
+  })
+
+  it('確保済みの枠を残したまま、3枠まで追加できる', async () => {
+    await seedUser(ALICE, ['a'])
+    const userRef = doc(firestoreOf(ALICE), 'users', ALICE)
+    await assertSucceeds(updateDoc(userRef, { avatarIds: ['a', 'b', 'c'] }))
+    await assertFails(updateDoc(userRef, { avatarIds: ['a', 'b', 'c', 'd'] }))
+  })
+
+  it('確保済みの枠を外して新しい枠を確保することはできない（上限の回避）', async () => {
+    await seedUser(ALICE, ['a', 'b', 'c'], ['a', 'b', 'c'])
+    const userRef = doc(firestoreOf(ALICE), 'users', ALICE)
+    await assertFails(updateDoc(userRef, { avatarIds: ['d', 'e', 'f'] }))
+    await assertFails(updateDoc(userRef, { avatarIds: ['a', 'b'] }))
+  })
+
+  it('保存しなかった枠は解放できない', async () => {
+    await seedUser(ALICE, ['a', 'b'], ['a'])
+    await assertFails(
+      updateDoc(doc(firestoreOf(ALICE), 'users', ALICE), { avatarIds: ['a'] }),
+    )
+  })
+
+  it('アバターの削除と同じバッチでのみ、その枠を解放できる', async () => {
+    await seedUser(ALICE, ['a', 'b'], ['a', 'b'])
+    const db = firestoreOf(ALICE)
+
+    const releaseOnly = writeBatch(db)
+    releaseOnly.update(doc(db, 'users', ALICE), { avatarIds: ['b'] })
+    await assertFails(releaseOnly.commit())
+
+    const releaseOther = writeBatch(db)
+    releaseOther.delete(doc(db, 'users', ALICE, 'avatars', 'a'))
+    releaseOther.update(doc(db, 'users', ALICE), { avatarIds: ['a'] })
+    await assertFails(releaseOther.commit())
+
+    const deleteAndRelease = writeBatch(db)
+    deleteAndRelease.delete(doc(db, 'users', ALICE, 'avatars', 'a'))
+    deleteAndRelease.update(doc(db, 'users', ALICE), { avatarIds: ['b'] })
+    await assertSucceeds(deleteAndRelease.commit())
+  })
+})
+
+describe('users/{uid}/avatars/{avatarId}', () => {
+  it('本人は確保済みの枠にのみ保存でき、他人は閲覧・保存できない', async () => {
+    await seedUser(ALICE, ['a'])
+    const db = firestoreOf(ALICE)
+    await assertSucceeds(
+      setDoc(doc(db, 'users', ALICE, 'avatars', 'a'), avatarData(ALICE, 'a')),
+    )
+    await assertFails(
+      setDoc(doc(db, 'users', ALICE, 'avatars', 'z'), avatarData(ALICE, 'z')),
+    )
+    await assertSucceeds(getDoc(doc(db, 'users', ALICE, 'avatars', 'a')))
+
+    const bob = firestoreOf(BOB)
+    await assertFails(getDoc(doc(bob, 'users', ALICE, 'avatars', 'a')))
+    await assertFails(
+      setDoc(doc(bob, 'users', ALICE, 'avatars', 'a'), avatarData(ALICE, 'a')),
+    )
+  })
+
+  it('パスが枠と一致しないアバターは保存できない', async () => {
+    await seedUser(ALICE, ['a'])
+    await assertFails(
+      setDoc(doc(firestoreOf(ALICE), 'users', ALICE, 'avatars', 'a'), {
+        ...avatarData(ALICE, 'a'),
+        path: `users/${BOB}/avatars/a.png`,
+      }),
+    )
+  })
+})
+
+describe('scenes/{sceneId}', () => {
+  /** シーンのアバター */
+  const sceneAvatar = (id: string, url: string, position: number) => ({
+    id,
+    url,
+    groundAnchor: 1,
+    choreography: 'float',
+    position,
+  })
+
+  /** アップロードしたアバターのID */
+  const AVATAR_ID = '0f8fad5b-d9cb-469f-a165-70867728950e'
+
+  /** 加工設定 */
+  const settings = {
+    removeBackground: true,
+    backgroundRemover: 'flood-fill',
+    backgroundTolerance: 20,
+    pixelArt: true,
+    pixelArtOptions: {
+      gridSize: 64,
+      colorCount: 16,
+      quantizeMethod: 'median-cut',
+      paletteName: null,
+      dithering: false,
+      outline: true,
+      outputSize: 512,
+    },
+  }
+
+  it('既定のアバターと本人のアバターのシーンを作成でき、誰でも閲覧できる', async () => {
+    const ref = await assertSucceeds(
+      addDoc(collection(firestoreOf(ALICE), 'scenes'), {
+        avatars: [
+          sceneAvatar('default-1', '/images/avatar.png', 0),
+          sceneAvatar(AVATAR_ID, downloadUrl(ALICE, AVATAR_ID), 1),
+        ],
+        settings,
+        createdAt: serverTimestamp(),
+      }),
+    )
+    await assertSucceeds(
+      getDoc(doc(testEnv.unauthenticatedContext().firestore(), ref.path)),
+    )
+  })
+
+  it('他人のアバター・IDとパスが一致しないアバターのシーンは作成できない', async () => {
+    const scenes = collection(firestoreOf(ALICE), 'scenes')
+    await assertFails(
+      addDoc(scenes, {
+        avatars: [sceneAvatar(AVATAR_ID, downloadUrl(BOB, AVATAR_ID), 0)],
+        settings: null,
+        createdAt: serverTimestamp(),
+      }),
+    )
+    await assertFails(
+      addDoc(scenes, {
+        avatars: [
+          sceneAvatar(
+            AVATAR_ID,
+            downloadUrl(ALICE, '7c9e6679-7425-40de-944b-e07fc1f90ae7'),
+            0,
+          ),
+        ],
+        settings: null,
+        createdAt: serverTimestamp(),
+      }),
+    )
+    await assertFails(
+      addDoc(scenes, {
+        avatars: [sceneAvatar('default-1', 'https://example.com/x.png', 0)],
+        settings: null,
+        createdAt: serverTimestamp(),
+      }),
+    )
+  })
+
+  it('Storage以外のホストのURLと、正規表現の文字を含むIDは拒否する', async () => {
+    const scenes = collection(firestoreOf(ALICE), 'scenes')
+    await assertFails(
+      addDoc(scenes, {
+        avatars: [
+          sceneAvatar(
+            AVATAR_ID,
+            `https://evil.example/v0/b/x/o/users%2F${ALICE}%2Favatars%2F${AVATAR_ID}.png`,
+            0,
+          ),
+        ],
+        settings: null,
+        createdAt: serverTimestamp(),
+      }),
+    )
+    // demo- で始まらないバケットはエミュレータのホストでは拒否する
+    await assertFails(
+      addDoc(scenes, {
+        avatars: [
+          sceneAvatar(
+            AVATAR_ID,
+            `http://127.0.0.1:9199/v0/b/prod-bucket/o/users%2F${ALICE}%2Favatars%2F${AVATAR_ID}.png`,
+            0,
+          ),
+        ],
+        settings: null,
+        createdAt: serverTimestamp(),
+      }),
+    )
+    // IDが「.*」だと任意のファイルに一致してしまう
+    await assertFails(
+      addDoc(scenes, {
+        avatars: [sceneAvatar('.*', downloadUrl(BOB, AVATAR_ID), 0)],
+        settings: null,
+        createdAt: serverTimestamp(),
+      }),
+    )
+  })
+
+  it('接地位置が範囲外のアバター・不正な加工設定のシーンは作成できない', async () => {
+    const scenes = collection(firestoreOf(ALICE), 'scenes')
+    await assertFails(
+      addDoc(scenes, {
+        avatars: [
+          {
+            ...sceneAvatar('default-1', '/images/avatar.png', 0),
+            groundAnchor: 2,
+          },
+        ],
+        settings: null,
+        createdAt: serverTimestamp(),
+      }),
+    )
+    const invalidSettings = [
+      { ...settings, extra: true },
+      { ...settings, backgroundRemover: 'unknown' },
+      { ...settings, backgroundTolerance: 101 },
+      {
+        ...settings,
+        pixelArtOptions: { ...settings.pixelArtOptions, gridSize: 4096 },
+      },
+      {
+        ...settings,
+        pixelArtOptions: { ...settings.pixelArtOptions, outputSize: 100000 },
+      },
+      'x'.repeat(1000),
+    ]
+    for (const invalid of invalidSettings) {
+      await assertFails(
+        addDoc(scenes, {
+          avatars: [],
+          settings: invalid,
+          createdAt: serverTimestamp(),
+        }),
+      )
+    }
+  })
+
+  it('シーンの一覧は取得できない', async () => {
+    await assertSucceeds(
+      addDoc(collection(firestoreOf(ALICE), 'scenes'), {
+        avatars: [],
+        settings: null,
+        createdAt: serverTimestamp(),
+      }),
+    )
+    await assertFails(getDocs(collection(firestoreOf(BOB), 'scenes')))
+    await assertFails(
+      getDocs(
+        collection(testEnv.unauthenticatedContext().firestore(), 'scenes'),
+      ),
+    )
+  })
+
+  it('ログインしていない場合は作成できず、作成後は変更できない', async () => {
+    await assertFails(
+      addDoc(
+        collection(testEnv.unauthenticatedContext().firestore(), 'scenes'),
+        {
+          avatars: [],
+          settings: null,
+          createdAt: serverTimestamp(),
+        },
+      ),
+    )
+    const ref = await assertSucceeds(
+      addDoc(collection(firestoreOf(ALICE), 'scenes'), {
+        avatars: [],
+        settings: null,
+        createdAt: serverTimestamp(),
+      }),
+    )
+    await assertFails(updateDoc(ref, { settings: null }))
+  })
+})
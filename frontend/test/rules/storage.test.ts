@@ -0,0 +1,153 @@
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing'
+import { doc, setDoc, writeBatch } from 'firebase/firestore'
+import { getBytes, listAll, ref, uploadBytes } from 'firebase/storage'
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest'
+import { ALICE, BOB, createRulesTestEnvironment } from './environment'
+
+let testEnv: RulesTestEnvironment
+
+/** PNGとしてアップロードする小さなデータ */
+const PNG_BYTES = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+])
+
+/** アバターID（ルールはUUID形式のファイル名のみ許可する） */
+const RESERVED_ID = '0f8fad5b-d9cb-469f-a165-70867728950e'
+const UNRESERVED_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7'
+
+/** ユーザーごとのStorage（ルールを適用する） */
+const storageOf = (uid: string) => testEnv.authenticatedContext(uid).storage()
+
+const avatarRef = (uid: string, owner: string, fileName: string) =>
+  ref(storageOf(uid), `users/${owner}/avatars/${fileName}`)
+
+beforeAll(async () => {
+  testEnv = await createRulesTestEnvironment()
+})
+
+afterAll(async () => {
+  await testEnv.cleanup()
+})
+
+beforeEach(async () => {
+  await testEnv.clearFirestore()
+  await testEnv.clearStorage()
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore(), 'users', ALICE), {
+      avatarIds: [RESERVED_ID],
+    })
+  })
+})
+
+describe('users/{uid}/avatars/{fileName}', () => {
+  it('本人は枠を確保したアバターのPNGをアップロードでき、誰でも閲覧できる', async () => {
+    await assertSucceeds(
+      uploadBytes(avatarRef(ALICE, ALICE, `${RESERVED_ID}.png`), PNG_BYTES, {
+        contentType: 'image/png',
+      }),
+    )
+    await assertSucceeds(
+      getBytes(
+        ref(
+          testEnv.unauthenticatedContext().storage(),
+          `users/${ALICE}/avatars/${RESERVED_ID}.png`,
+        ),
+      ),
+    )
+  })
+
+  it('アバターの一覧は取得できない', async () => {
+    await assertSucceeds(
+      uploadBytes(avatarRef(ALICE, ALICE, `${RESERVED_ID}.png`), PNG_BYTES, {
+        contentType: 'image/png',
+      }),
+    )
+    await assertFails(listAll(ref(storageOf(BOB), `users/${ALICE}/avatars`)))
+    await assertFails(
+      listAll(
+        ref(
+          testEnv.unauthenticatedContext().storage(),
+          `users/${ALICE}/avatars`,
+        ),
+      ),
+    )
+  })
+
+  it('枠を確保していないアバターはアップロードできない', async () => {
+    await assertFails(
+      uploadBytes(avatarRef(ALICE, ALICE, `${UNRESERVED_ID}.png`), PNG_BYTES, {
+        contentType: 'image/png',
+      }),
+    )
+  })
+
+  it('他人のパス・PNG以外はアップロードできない', async () => {
+    await assertFails(
+      uploadBytes(avatarRef(BOB, ALICE, `${RESERVED_ID}.png`), PNG_BYTES, {
+        contentType: 'image/png',
+      }),
+    )
+    await assertFails(
+      uploadBytes(avatarRef(ALICE, ALICE, `${RESERVED_ID}.png`), PNG_BYTES, {
+        contentType: 'image/jpeg',
+      }),
+    )
+    await assertFails(
+      uploadBytes(avatarRef(ALICE, ALICE, `${RESERVED_ID}.jpg`), PNG_BYTES, {
+        contentType: 'image/png',
+      }),
+    )
+  })
+
+  // 既知の制限: 枠の解放はFirestoreのルールで検証するため、画像の削除は強制できない
+  it('画像を削除しなくても枠は解放でき、解放した枠の画像は残るが上書きできない', async () => {
+    await assertSucceeds(
+      uploadBytes(avatarRef(ALICE, ALICE, `${RESERVED_ID}.png`), PNG_BYTES, {
+        contentType: 'image/png',
+      }),
+    )
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(
+        doc(context.firestore(), 'users', ALICE, 'avatars', RESERVED_ID),
+        {
+          url: `https://example.com/${RESERVED_ID}.png`,
+          groundAnchor: 1,
+          choreography: 'float',
+          path: `users/${ALICE}/avatars/${RESERVED_ID}.png`,
+          createdAt: new Date(),
+        },
+      )
+    })
+
+    const db = testEnv.authenticatedContext(ALICE).firestore()
+    const release = writeBatch(db)
+    release.delete(doc(db, 'users', ALICE, 'avatars', RESERVED_ID))
+    release.update(doc(db, 'users', ALICE), { avatarIds: [] })
+    await assertSucceeds(release.commit())
+
+    await assertSucceeds(
+      getBytes(avatarRef(ALICE, ALICE, `${RESERVED_ID}.png`)),
+    )
+    await assertFails(
+      uploadBytes(avatarRef(ALICE, ALICE, `${RESERVED_ID}.png`), PNG_BYTES, {
+        contentType: 'image/png',
+      }),
+    )
+  })
+
+  it('アバター以外のパスには書き込めない', async () => {
+    await assertFails(
+      uploadBytes(
+        ref(storageOf(ALICE), `other/${RESERVED_ID}.png`),
+        PNG_BYTES,
+        {
+          contentType: 'image/png',
+        },
+      ),
+    )
+  })
+})
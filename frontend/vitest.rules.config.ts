@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config'
+
+/**
+ * セキュリティルールのテスト（Firebaseのエミュレータが必要なため通常のテストとは分ける）
+ * `pnpm test:rules` で、エミュレータを起動してから実行する
+ */
+export default defineConfig({
+  test: {
+    include: ['test/rules/**/*.test.ts'],
+    // エミュレータのデータを共有するため、ファイルを順番に実行する
+    fileParallelism: false,
+    testTimeout: 15000,
+  },
+})